@@ -1,108 +1,267 @@
 import { authenticate } from '@google-cloud/local-auth';
+import { createHash, randomBytes } from 'crypto';
 import { promises as fs } from 'fs';
-import { OAuth2Client } from 'google-auth-library';
+import os from 'os';
+import { CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
+import { google } from 'googleapis';
 import path from 'path';
-import { AuthConfig, AuthenticationError, TokenData, TokenExpiredError } from './types.js';
+import { AuthPaths, ENV_VARS, resolveAuthPaths } from './paths.js';
+import { resolveRequestedScopes } from './scopes.js';
+import { createLogger } from '../utils/logger.js';
+import { ToolError } from '../utils/tool-errors.js';
+import { createTokenStore, EncryptedTokenStore, FileTokenStore, isMissingFileError, migratePlaintextTokens, resolveTokenStoreConfig, TokenStore, TokenStoreConfig } from './token-store.js';
+import { AccountIndex, AccountInfo, AuthConfig, AuthDiagnostics, AuthenticationError, OAuthClientConfig, PendingAuth, TokenData, TokenExpiredError } from './types.js';
+
+const log = createLogger('auth');
 
 export class AuthManager {
-  private readonly AUTH_DIR = path.join(process.cwd(), 'src', 'auth');
-  private readonly CREDENTIALS_PATH = path.join(this.AUTH_DIR, 'credentials.json');
-  private readonly TOKEN_PATH = path.join(this.AUTH_DIR, 'token.json');
-  private readonly SCOPES = [
-    'https://www.googleapis.com/auth/youtube.readonly',
-    'https://www.googleapis.com/auth/yt-analytics.readonly',
-    'https://www.googleapis.com/auth/youtubepartner'
-  ];
+  private readonly paths: AuthPaths;
+  private readonly CREDENTIALS_PATH: string;
+  private readonly LEGACY_TOKEN_PATH: string;
+  private readonly TOKENS_DIR: string;
+  private readonly ACCOUNTS_PATH: string;
+  private readonly SCOPES: string[];
+
+  private readonly PENDING_AUTH_TTL_MS = 10 * 60 * 1000;
+
+  private readonly tokenStore: TokenStore;
+
+  // Account index kept in memory when the token store is not persistent
+  private memoryAccountIndex: AccountIndex = { accounts: {} };
 
-  private authClient: OAuth2Client | null = null;
+  // Cached OAuth2 clients keyed by channel ID
+  private authClients = new Map<string, OAuth2Client>();
+
+  // Headless OAuth flow started by startAuth() and awaiting completeAuth()
+  private pendingAuth: PendingAuth | null = null;
+
+  constructor(
+    paths: AuthPaths = resolveAuthPaths(),
+    tokenStoreConfig: TokenStoreConfig = resolveTokenStoreConfig(),
+    scopes: string[] = resolveRequestedScopes()
+  ) {
+    this.paths = paths;
+    this.SCOPES = scopes;
+    this.CREDENTIALS_PATH = paths.credentialsPath;
+    this.LEGACY_TOKEN_PATH = path.join(paths.tokenDir, 'token.json');
+    this.TOKENS_DIR = path.join(paths.tokenDir, 'tokens');
+    this.ACCOUNTS_PATH = path.join(paths.tokenDir, 'accounts.json');
+    this.tokenStore = createTokenStore(tokenStoreConfig, this.TOKENS_DIR);
+  }
 
-  constructor() {
+  getTokenStoreKind(): TokenStore['kind'] {
+    return this.tokenStore.kind;
   }
 
-  async getAuthClient(): Promise<OAuth2Client> {
+  /**
+   * Returns the resolved config locations and where each came from (never the credentials themselves).
+   */
+  getPathInfo(): Omit<AuthPaths, 'credentialsJson'> & { credentialsLocation: string } {
+    const { credentialsJson, ...info } = this.paths;
+    return {
+      ...info,
+      credentialsLocation: credentialsJson ? ENV_VARS.credentialsJson : info.credentialsPath
+    };
+  }
+
+  async getAuthClient(account?: string): Promise<OAuth2Client> {
+    const accountId = await this.resolveAccountId(account);
+
+    // No stored accounts yet - run the OAuth flow to add the first one
+    if (!accountId) {
+      const { client } = await this.authenticate();
+      return client;
+    }
+
     // Return cached client if available and valid
-    if (this.authClient) {
+    const cached = this.authClients.get(accountId);
+    if (cached) {
       try {
-        await this.refreshTokenIfNeeded(this.authClient);
-        return this.authClient;
+        await this.refreshTokenIfNeeded(accountId, cached);
+        return cached;
       } catch (error) {
-        console.log('Cached auth client invalid, creating new one...');
-        this.authClient = null;
+        log.warn(`Cached auth client invalid for account ${accountId}, creating new one`, error);
+        this.authClients.delete(accountId);
       }
     }
 
     try {
-      // Try to load existing token
-      const content = await fs.readFile(this.TOKEN_PATH, 'utf8');
-      const tokenData: TokenData = JSON.parse(content);
-      
-      // Load credentials to get client_id and client_secret
-      const credentialsContent = await fs.readFile(this.CREDENTIALS_PATH, 'utf8');
-      const credentials: AuthConfig = JSON.parse(credentialsContent);
-      
-      // Create OAuth2Client with proper credentials
-      this.authClient = new OAuth2Client(
-        credentials.web.client_id,
-        credentials.web.client_secret,
-        credentials.web.redirect_uris[0]
-      );
-      
-      // Set the stored tokens
-      this.authClient.setCredentials({
+      // Load the stored token for this account
+      const tokenData = await this.tokenStore.read(accountId);
+      if (!tokenData) {
+        throw new Error('no stored token');
+      }
+
+      const authClient = await this.createClient();
+      authClient.setCredentials({
         access_token: tokenData.access_token,
         refresh_token: tokenData.refresh_token,
         expiry_date: tokenData.expiry_date
       });
-      
+
       // Refresh token if needed
-      await this.refreshTokenIfNeeded(this.authClient);
-      
-      return this.authClient;
+      await this.refreshTokenIfNeeded(accountId, authClient);
+
+      this.authClients.set(accountId, authClient);
+      return authClient;
     } catch (error) {
-      // If no token exists or loading fails, trigger authentication
-      console.log('No valid token found, initiating authentication flow...');
-      this.authClient = null;
-      return await this.authenticate();
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      throw new AuthenticationError(
+        `Failed to load token for account ${accountId}: ${error}. Use add_account to re-authenticate this channel.`,
+        accountId
+      );
     }
   }
 
-  async authenticate(): Promise<OAuth2Client> {
-    try {
-      // Check if credentials file exists
-      try {
-        await fs.access(this.CREDENTIALS_PATH);
-      } catch {
-        throw new AuthenticationError(
-          `Credentials file not found at ${this.CREDENTIALS_PATH}. ` +
-          'Please place your Google OAuth credentials in src/auth/credentials.json'
-        );
-      }
+  /**
+   * Resolves an account reference (channel ID or channel title) to a stored channel ID.
+   * Falls back to the active account when no reference is given; returns null if no accounts exist.
+   */
+  async resolveAccountId(account?: string): Promise<string | null> {
+    const index = await this.loadAccountIndex();
+
+    if (!account) {
+      return index.activeAccount && index.accounts[index.activeAccount] ? index.activeAccount : null;
+    }
 
-      console.log('Auth manager CREDENTIALS_PATH', this.CREDENTIALS_PATH);
+    if (index.accounts[account]) {
+      return account;
+    }
+
+    const byTitle = Object.values(index.accounts).find(
+      info => info.title.toLowerCase() === account.toLowerCase()
+    );
+    if (byTitle) {
+      return byTitle.channelId;
+    }
+
+    throw new AuthenticationError(
+      `Unknown account "${account}". Use list_accounts to see available accounts or add_account to add one.`,
+      account
+    );
+  }
+
+  async authenticate(): Promise<{ client: OAuth2Client; account: AccountInfo }> {
+    try {
+      // Check that credentials are available
+      await this.loadCredentials();
 
       // Trigger OAuth flow using local-auth
-      const client = await authenticate({
-        scopes: this.SCOPES,
-        keyfilePath: this.CREDENTIALS_PATH,
+      const client = await this.withKeyfile(async keyfilePath => {
+        return await authenticate({
+          scopes: this.SCOPES,
+          keyfilePath,
+        }) as unknown as OAuth2Client;
       });
 
-      // Save tokens
-      if (client.credentials) {
-        this.authClient = client as unknown as OAuth2Client;
-        await this.saveToken(this.authClient);
-        console.log('Authentication successful! Tokens saved.');
+      const account = await this.storeAuthenticatedClient(client);
+      return { client, account };
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
       }
+      throw new AuthenticationError(
+        `Authentication failed: ${error}. ` +
+        'If no local browser is available, use start_auth and complete_auth instead.'
+      );
+    }
+  }
 
-      return this.authClient || (client as unknown as OAuth2Client);
+  /**
+   * Starts a headless OAuth flow: returns an authorization URL to open on any device.
+   * The resulting code (or full redirect URL) is passed to completeAuth().
+   */
+  async startAuth(): Promise<string> {
+    const client = await this.createClient();
+    const state = randomBytes(16).toString('hex');
+    const { codeVerifier, codeChallenge } = await client.generateCodeVerifierAsync();
+
+    const authUrl = client.generateAuthUrl({
+      access_type: 'offline',
+      prompt: 'consent',
+      scope: this.SCOPES,
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: CodeChallengeMethod.S256
+    });
+
+    this.pendingAuth = {
+      client,
+      state,
+      codeVerifier,
+      expiresAt: Date.now() + this.PENDING_AUTH_TTL_MS
+    };
+
+    return authUrl;
+  }
+
+  async completeAuth(codeOrRedirectUrl: string): Promise<AccountInfo> {
+    const pending = this.pendingAuth;
+    if (!pending || pending.expiresAt < Date.now()) {
+      this.pendingAuth = null;
+      throw new AuthenticationError('No pending authorization. Call start_auth first to get a new authorization URL.');
+    }
+
+    const { code, state } = this.parseAuthorizationInput(codeOrRedirectUrl);
+    if (state && state !== pending.state) {
+      throw new AuthenticationError('Authorization state mismatch. Call start_auth again and use the newest URL.');
+    }
+
+    try {
+      const { tokens } = await pending.client.getToken({ code, codeVerifier: pending.codeVerifier });
+      pending.client.setCredentials(tokens);
+      this.pendingAuth = null;
+
+      return await this.storeAuthenticatedClient(pending.client);
     } catch (error) {
       if (error instanceof AuthenticationError) {
         throw error;
       }
-      throw new AuthenticationError(`Authentication failed: ${error}`);
+      throw new AuthenticationError(`Failed to exchange authorization code: ${error}`);
+    }
+  }
+
+  async listAccounts(): Promise<Array<AccountInfo & { active: boolean }>> {
+    const index = await this.loadAccountIndex();
+    return Object.values(index.accounts).map(info => ({
+      ...info,
+      active: info.channelId === index.activeAccount
+    }));
+  }
+
+  async addAccount(): Promise<AccountInfo> {
+    const { account } = await this.authenticate();
+    return account;
+  }
+
+  async switchAccount(account: string): Promise<AccountInfo> {
+    const accountId = await this.resolveAccountId(account);
+    const index = await this.loadAccountIndex();
+    index.activeAccount = accountId!;
+    await this.saveAccountIndex(index);
+    return index.accounts[accountId!];
+  }
+
+  async removeAccount(account: string): Promise<AccountInfo> {
+    const accountId = (await this.resolveAccountId(account))!;
+    const index = await this.loadAccountIndex();
+    const info = index.accounts[accountId];
+
+    // Best-effort revoke; the local token is removed either way
+    try {
+      const auth = await this.getAuthClient(accountId);
+      await auth.revokeCredentials();
+    } catch (error) {
+      log.warn(`Failed to revoke credentials for account ${accountId}`, error);
     }
+
+    await this.forgetAccount(accountId);
+    return info;
   }
 
-  private async refreshTokenIfNeeded(auth: OAuth2Client): Promise<void> {
+  private async refreshTokenIfNeeded(accountId: string, auth: OAuth2Client): Promise<void> {
     try {
       // Check if token is expired or about to expire (within 5 minutes)
       const now = Date.now();
@@ -110,95 +269,427 @@ export class AuthManager {
       const fiveMinutesFromNow = now + (5 * 60 * 1000);
 
       if (!expiryDate || expiryDate <= fiveMinutesFromNow) {
-        console.log('Token expired or expiring soon, refreshing...');
-        
+        log.info(`Token expired or expiring soon for account ${accountId}, refreshing`);
+
         // Ensure we have a refresh token
         if (!auth.credentials.refresh_token) {
-          console.error('No refresh token available');
-          throw new TokenExpiredError('No refresh token available');
+          log.error(`No refresh token available for account ${accountId}`);
+          throw new TokenExpiredError(accountId);
         }
-        
+
         const { credentials } = await auth.refreshAccessToken();
         auth.setCredentials(credentials);
-        
+
         // Update stored token with new access token
-        await this.updateStoredToken(auth);
-        
-        console.log('Token refreshed successfully');
+        await this.updateStoredToken(accountId, auth);
+
+        log.info(`Token refreshed for account ${accountId}`);
       }
     } catch (error) {
-      console.error('Token refresh failed:', error);
+      log.error(`Token refresh failed for account ${accountId}`, error);
       // Clear the cached client so we don't keep using invalid tokens
-      this.authClient = null;
-      throw new TokenExpiredError('Token refresh failed - please re-authenticate');
+      this.authClients.delete(accountId);
+      throw new TokenExpiredError(accountId);
+    }
+  }
+
+  private parseAuthorizationInput(input: string): { code: string; state?: string } {
+    const trimmed = input.trim();
+
+    if (!/^https?:\/\//i.test(trimmed)) {
+      return { code: trimmed };
+    }
+
+    const url = new URL(trimmed);
+    const error = url.searchParams.get('error');
+    if (error) {
+      throw new AuthenticationError(`Authorization was denied: ${error}`);
+    }
+
+    const code = url.searchParams.get('code');
+    if (!code) {
+      throw new AuthenticationError('Redirect URL does not contain an authorization code');
+    }
+
+    return { code, state: url.searchParams.get('state') || undefined };
+  }
+
+  private async storeAuthenticatedClient(client: OAuth2Client): Promise<AccountInfo> {
+    if (!client.credentials?.refresh_token) {
+      throw new AuthenticationError('OAuth flow did not return a refresh token');
+    }
+
+    // Key the stored token by the channel it grants access to
+    const account = await this.identifyAccount(client);
+    await this.saveToken(account.channelId, client);
+    await this.registerAccount(account);
+    this.authClients.set(account.channelId, client);
+    log.info(`Authentication successful for channel ${account.title} (${account.channelId}). Tokens saved.`);
+
+    return account;
+  }
+
+  private async loadCredentials(): Promise<OAuthClientConfig> {
+    let credentials: AuthConfig;
+    try {
+      const credentialsContent = this.paths.credentialsJson ?? await fs.readFile(this.CREDENTIALS_PATH, 'utf8');
+      credentials = JSON.parse(credentialsContent);
+    } catch (error) {
+      const location = this.paths.credentialsJson ? ENV_VARS.credentialsJson : this.CREDENTIALS_PATH;
+      throw new AuthenticationError(
+        `Could not load Google OAuth credentials from ${location}: ${error}. ` +
+        `Place credentials.json in ${this.paths.configDir}, or set ${ENV_VARS.credentialsPath} / ${ENV_VARS.credentialsJson}`
+      );
+    }
+
+    const config = credentials.web ?? credentials.installed;
+    if (!config) {
+      throw new AuthenticationError('Credentials must contain a "web" or "installed" OAuth client configuration');
+    }
+    return config;
+  }
+
+  /**
+   * local-auth only accepts a keyfile path, so env-provided credentials are written to a private temp file for the call.
+   */
+  private async withKeyfile<T>(fn: (keyfilePath: string) => Promise<T>): Promise<T> {
+    if (!this.paths.credentialsJson) {
+      return await fn(this.CREDENTIALS_PATH);
     }
+
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'youtube-analytics-mcp-'));
+    const keyfilePath = path.join(tempDir, 'credentials.json');
+    try {
+      await fs.writeFile(keyfilePath, this.paths.credentialsJson, { mode: 0o600 });
+      return await fn(keyfilePath);
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+
+  private async createClient(): Promise<OAuth2Client> {
+    // Load credentials to get client_id and client_secret
+    const credentials = await this.loadCredentials();
+
+    return new OAuth2Client(
+      credentials.client_id,
+      credentials.client_secret,
+      credentials.redirect_uris[0]
+    );
+  }
+
+  private async identifyChannel(client: OAuth2Client): Promise<AccountInfo> {
+    const youtube = google.youtube({ version: 'v3', auth: client });
+    const response = await youtube.channels.list({ part: ['snippet'], mine: true });
+    const channel = response.data.items?.[0];
+
+    if (!channel?.id) {
+      throw new AuthenticationError('No YouTube channel found for the authenticated Google account');
+    }
+
+    return {
+      channelId: channel.id,
+      title: channel.snippet?.title || channel.id,
+      addedAt: new Date().toISOString()
+    };
   }
 
-  private async saveToken(client: OAuth2Client): Promise<void> {
+  /**
+   * Identifies the account to key a token by. CMS users acting for a content owner may have
+   * no channel of their own, so those accounts get a stable ID derived from the refresh token.
+   */
+  private async identifyAccount(client: OAuth2Client): Promise<AccountInfo> {
+    try {
+      return await this.identifyChannel(client);
+    } catch (error) {
+      if (!(error instanceof AuthenticationError) || !client.credentials.refresh_token) {
+        throw error;
+      }
+
+      const digest = createHash('sha256').update(client.credentials.refresh_token).digest('hex');
+      return {
+        channelId: `account-${digest.slice(0, 12)}`,
+        title: 'Google account without channel',
+        addedAt: new Date().toISOString()
+      };
+    }
+  }
+
+  private async loadAccountIndex(): Promise<AccountIndex> {
+    if (!this.tokenStore.persistent) {
+      return this.memoryAccountIndex;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(this.ACCOUNTS_PATH, 'utf8');
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return await this.migrateLegacyToken();
+      }
+      throw this.accountIndexError(error);
+    }
+    try {
+      return JSON.parse(content);
+    } catch (error) {
+      // Never fall back to an empty index here: the next save would overwrite every stored account
+      throw this.accountIndexError(error);
+    }
+  }
+
+  private accountIndexError(error: unknown): ToolError {
+    return new ToolError(
+      'INTERNAL_ERROR',
+      `Cannot read the account index ${this.ACCOUNTS_PATH}: ${error instanceof Error ? error.message : String(error)}`,
+      `Fix or restore the file. Account tokens in ${this.TOKENS_DIR} are kept; deleting the file forgets the accounts until they are added again.`
+    );
+  }
+
+  private async saveAccountIndex(index: AccountIndex): Promise<void> {
+    if (!this.tokenStore.persistent) {
+      this.memoryAccountIndex = index;
+      return;
+    }
+
+    await fs.mkdir(this.paths.tokenDir, { recursive: true, mode: 0o700 });
+    await fs.writeFile(this.ACCOUNTS_PATH, JSON.stringify(index, null, 2), { mode: 0o600 });
+    // Older versions created the index world-readable
+    await fs.chmod(this.ACCOUNTS_PATH, 0o600);
+  }
+
+  private async registerAccount(account: AccountInfo): Promise<void> {
+    const index = await this.loadAccountIndex();
+    index.accounts[account.channelId] = account;
+    if (!index.activeAccount || !index.accounts[index.activeAccount]) {
+      index.activeAccount = account.channelId;
+    }
+    await this.saveAccountIndex(index);
+  }
+
+  private async forgetAccount(accountId: string): Promise<void> {
+    this.authClients.delete(accountId);
+
+    try {
+      await this.tokenStore.remove(accountId);
+    } catch (error) {
+      log.warn(`Failed to remove token file for account ${accountId}`, error);
+    }
+
+    const index = await this.loadAccountIndex();
+    delete index.accounts[accountId];
+    if (index.activeAccount === accountId) {
+      index.activeAccount = Object.keys(index.accounts)[0];
+    }
+    await this.saveAccountIndex(index);
+  }
+
+  /**
+   * Moves a single-account src/auth/token.json from older versions into the per-account store.
+   */
+  private async migrateLegacyToken(): Promise<AccountIndex> {
+    const index: AccountIndex = { accounts: {} };
+
+    let tokenData: TokenData | null;
+    try {
+      tokenData = this.tokenStore instanceof FileTokenStore
+        ? await this.tokenStore.readFile(this.LEGACY_TOKEN_PATH)
+        : null;
+    } catch (error) {
+      log.error('Failed to read legacy token.json', error);
+      return index;
+    }
+    if (!tokenData) {
+      return index;
+    }
+
+    try {
+      const client = await this.createClient();
+      client.setCredentials({
+        access_token: tokenData.access_token,
+        refresh_token: tokenData.refresh_token,
+        expiry_date: tokenData.expiry_date
+      });
+
+      const account = await this.identifyAccount(client);
+      await this.saveToken(account.channelId, client);
+
+      index.accounts[account.channelId] = account;
+      index.activeAccount = account.channelId;
+      await this.saveAccountIndex(index);
+      await fs.unlink(this.LEGACY_TOKEN_PATH);
+
+      log.info(`Migrated legacy token.json to account ${account.title} (${account.channelId})`);
+    } catch (error) {
+      log.error('Failed to migrate legacy token.json', error);
+    }
+
+    return index;
+  }
+
+  private async saveToken(accountId: string, client: OAuth2Client): Promise<void> {
     try {
       // Read credentials to get client_id and client_secret
-      const credentialsContent = await fs.readFile(this.CREDENTIALS_PATH, 'utf8');
-      const credentials: AuthConfig = JSON.parse(credentialsContent);
+      const credentials = await this.loadCredentials();
 
       const tokenData: TokenData = {
         type: 'authorized_user',
-        client_id: credentials.web.client_id,
-        client_secret: credentials.web.client_secret,
+        client_id: credentials.client_id,
+        client_secret: credentials.client_secret,
         refresh_token: client.credentials.refresh_token!,
         access_token: client.credentials.access_token || undefined,
         expiry_date: client.credentials.expiry_date || undefined
       };
 
-      await fs.writeFile(this.TOKEN_PATH, JSON.stringify(tokenData, null, 2));
-      
-      // Set restrictive permissions on token file
-      await fs.chmod(this.TOKEN_PATH, 0o600);
+      await this.tokenStore.write(accountId, tokenData);
     } catch (error) {
-      throw new AuthenticationError(`Failed to save token: ${error}`);
+      throw new AuthenticationError(`Failed to save token: ${error}`, accountId);
     }
   }
 
-  private async updateStoredToken(auth: OAuth2Client): Promise<void> {
+  private async updateStoredToken(accountId: string, auth: OAuth2Client): Promise<void> {
     try {
-      const content = await fs.readFile(this.TOKEN_PATH, 'utf8');
-      const tokenData: TokenData = JSON.parse(content);
-      
+      const tokenData = await this.tokenStore.read(accountId);
+      if (!tokenData) {
+        throw new Error('no stored token');
+      }
+
       // Update with new access token and expiry
       tokenData.access_token = auth.credentials.access_token || undefined;
       tokenData.expiry_date = auth.credentials.expiry_date || undefined;
-      
-      await fs.writeFile(this.TOKEN_PATH, JSON.stringify(tokenData, null, 2));
+
+      await this.tokenStore.write(accountId, tokenData);
     } catch (error) {
-      throw new AuthenticationError(`Failed to update stored token: ${error}`);
+      throw new AuthenticationError(`Failed to update stored token: ${error}`, accountId);
+    }
+  }
+
+  /**
+   * Encrypts existing plaintext token files (per-account tokens and a legacy token.json) in place.
+   */
+  async migrateTokenStorage(): Promise<{ migrated: string[]; skipped: string[]; failed: string[] }> {
+    if (!(this.tokenStore instanceof EncryptedTokenStore)) {
+      throw new AuthenticationError(
+        `Token migration requires the encrypted token store. Set ${ENV_VARS.tokenKey} or ${ENV_VARS.tokenKeyFile}.`
+      );
+    }
+
+    let tokenFiles: string[] = [];
+    try {
+      tokenFiles = (await fs.readdir(this.TOKENS_DIR))
+        .filter(name => name.endsWith('.json'))
+        .map(name => path.join(this.TOKENS_DIR, name));
+    } catch {
+      // No per-account tokens yet
     }
+
+    return await migratePlaintextTokens(this.tokenStore, [...tokenFiles, this.LEGACY_TOKEN_PATH]);
   }
 
-  async revokeToken(): Promise<void> {
+  async revokeToken(account?: string): Promise<void> {
+    const accountId = await this.resolveAccountId(account);
+    if (!accountId) {
+      throw new AuthenticationError('No authenticated account to revoke');
+    }
+
     try {
-      const auth = await this.getAuthClient();
+      const auth = await this.getAuthClient(accountId);
       await auth.revokeCredentials();
-      
-      // Clear cached client
-      this.authClient = null;
-      
-      // Remove stored token file
-      try {
-        await fs.unlink(this.TOKEN_PATH);
-        console.log('Token revoked and removed successfully');
-      } catch (error) {
-        console.warn('Failed to remove token file:', error);
-      }
+      await this.forgetAccount(accountId);
+      log.info(`Token revoked and removed for account ${accountId}`);
     } catch (error) {
-      throw new AuthenticationError(`Failed to revoke token: ${error}`);
+      throw new AuthenticationError(`Failed to revoke token: ${error}`, accountId);
     }
   }
 
-  async isAuthenticated(): Promise<boolean> {
+  /**
+   * Inspects the stored token without ever starting an OAuth flow. A silent refresh is
+   * attempted for expired access tokens; every failure is reported instead of thrown.
+   */
+  async getAuthDiagnostics(account?: string): Promise<AuthDiagnostics> {
+    const diagnostics: AuthDiagnostics = {
+      authenticated: false,
+      hasRefreshToken: false,
+      grantedScopes: [],
+      errors: []
+    };
+
+    let accountId: string | null;
     try {
-      const auth = await this.getAuthClient();
+      accountId = await this.resolveAccountId(account);
+    } catch (error) {
+      diagnostics.errors.push(error instanceof Error ? error.message : String(error));
+      return diagnostics;
+    }
+
+    if (!accountId) {
+      diagnostics.errors.push('No accounts configured. Use add_account or start_auth to authenticate.');
+      return diagnostics;
+    }
+
+    const index = await this.loadAccountIndex();
+    diagnostics.account = index.accounts[accountId];
+
+    let auth: OAuth2Client;
+    try {
+      auth = await this.getAuthClient(accountId);
+    } catch (error) {
+      diagnostics.errors.push(error instanceof Error ? error.message : String(error));
+      const tokenData = await this.tokenStore.read(accountId).catch(() => null);
+      diagnostics.hasRefreshToken = !!tokenData?.refresh_token;
+      diagnostics.accessTokenExpiry = tokenData?.expiry_date;
+      return diagnostics;
+    }
+
+    diagnostics.hasRefreshToken = !!auth.credentials.refresh_token;
+    diagnostics.accessTokenExpiry = auth.credentials.expiry_date ?? undefined;
+
+    try {
+      const tokenInfo = await auth.getTokenInfo(auth.credentials.access_token!);
+      diagnostics.grantedScopes = tokenInfo.scopes;
+      diagnostics.accessTokenExpiry = tokenInfo.expiry_date;
+      diagnostics.authenticated = true;
+    } catch (error) {
+      diagnostics.errors.push(`Token info lookup failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    try {
+      const channel = await this.identifyChannel(auth);
+      diagnostics.channel = { id: channel.channelId, title: channel.title };
+    } catch (error) {
+      diagnostics.errors.push(`Channel lookup failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return diagnostics;
+  }
+
+  /**
+   * Returns the scopes granted to an account's token, or an empty list when it is not authenticated.
+   * Like getAuthDiagnostics, this never starts an OAuth flow.
+   */
+  async getGrantedScopes(account?: string): Promise<string[]> {
+    try {
+      const accountId = await this.resolveAccountId(account);
+      if (!accountId) {
+        return [];
+      }
+      const auth = await this.getAuthClient(accountId);
+      const tokenInfo = await auth.getTokenInfo(auth.credentials.access_token!);
+      return tokenInfo.scopes;
+    } catch {
+      return [];
+    }
+  }
+
+  async isAuthenticated(account?: string): Promise<boolean> {
+    try {
+      // Never start an interactive login just to answer a status check
+      if (!await this.resolveAccountId(account)) {
+        return false;
+      }
+      const auth = await this.getAuthClient(account);
       return !!auth.credentials.access_token;
     } catch {
       return false;
     }
   }
-}
\ No newline at end of file
+}
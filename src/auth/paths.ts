@@ -0,0 +1,142 @@
+import { existsSync } from 'fs';
+import os from 'os';
+import path from 'path';
+
+export type PathSource = 'cli' | 'env' | 'legacy' | 'default';
+
+export interface AuthPaths {
+  configDir: string;
+  configDirSource: PathSource;
+  // Path to credentials.json; unused when credentialsJson is set
+  credentialsPath: string;
+  // Raw credentials JSON provided through the environment
+  credentialsJson?: string;
+  credentialsSource: PathSource;
+  // Directory holding accounts.json and the per-account tokens/ folder
+  tokenDir: string;
+  tokenDirSource: PathSource;
+}
+
+export const APP_NAME = 'youtube-analytics-mcp';
+
+export const ENV_VARS = {
+  configDir: 'YOUTUBE_MCP_CONFIG_DIR',
+  credentialsPath: 'YOUTUBE_MCP_CREDENTIALS_PATH',
+  credentialsJson: 'YOUTUBE_MCP_CREDENTIALS_JSON',
+  tokenDir: 'YOUTUBE_MCP_TOKEN_DIR',
+  tokenStore: 'YOUTUBE_MCP_TOKEN_STORE',
+  tokenKey: 'YOUTUBE_MCP_TOKEN_KEY',
+  tokenKeyFile: 'YOUTUBE_MCP_TOKEN_KEY_FILE',
+  monetary: 'YOUTUBE_MCP_MONETARY'
+} as const;
+
+export const CLI_FLAGS = {
+  configDir: '--config-dir',
+  credentialsPath: '--credentials',
+  tokenDir: '--token-dir',
+  tokenStore: '--token-store',
+  tokenKeyFile: '--token-key-file',
+  monetary: '--monetary'
+} as const;
+
+/**
+ * Reads a `--flag value` or `--flag=value` option from the command line.
+ */
+export function getCliFlag(argv: string[], flag: string): string | undefined {
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === flag && i + 1 < argv.length) {
+      return argv[i + 1];
+    }
+    if (arg.startsWith(`${flag}=`)) {
+      return arg.slice(flag.length + 1);
+    }
+  }
+  return undefined;
+}
+
+function expandHome(p: string): string {
+  return p.startsWith('~') ? path.join(os.homedir(), p.slice(1)) : path.resolve(p);
+}
+
+function defaultConfigDir(env: NodeJS.ProcessEnv): string {
+  const xdgConfigHome = env.XDG_CONFIG_HOME || path.join(os.homedir(), '.config');
+  return path.join(xdgConfigHome, APP_NAME);
+}
+
+/**
+ * Resolves where credentials and tokens live. Precedence, highest first:
+ * 1. CLI flags (--config-dir, --credentials, --token-dir)
+ * 2. Environment variables (YOUTUBE_MCP_*; YOUTUBE_MCP_CREDENTIALS_JSON wins over a credentials path)
+ * 3. Legacy ./src/auth directory, when launched from a source checkout that already has credentials there
+ * 4. XDG config directory ($XDG_CONFIG_HOME/youtube-analytics-mcp or ~/.config/youtube-analytics-mcp)
+ */
+export function resolveAuthPaths(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): AuthPaths {
+  const legacyDir = path.join(process.cwd(), 'src', 'auth');
+
+  let configDir: string;
+  let configDirSource: PathSource;
+  const cliConfigDir = getCliFlag(argv, CLI_FLAGS.configDir);
+  if (cliConfigDir) {
+    configDir = expandHome(cliConfigDir);
+    configDirSource = 'cli';
+  } else if (env[ENV_VARS.configDir]) {
+    configDir = expandHome(env[ENV_VARS.configDir]!);
+    configDirSource = 'env';
+  } else if (existsSync(path.join(legacyDir, 'credentials.json'))) {
+    configDir = legacyDir;
+    configDirSource = 'legacy';
+  } else {
+    configDir = defaultConfigDir(env);
+    configDirSource = 'default';
+  }
+
+  let credentialsPath = path.join(configDir, 'credentials.json');
+  let credentialsJson: string | undefined;
+  let credentialsSource: PathSource = configDirSource;
+  const cliCredentials = getCliFlag(argv, CLI_FLAGS.credentialsPath);
+  if (cliCredentials) {
+    credentialsPath = expandHome(cliCredentials);
+    credentialsSource = 'cli';
+  } else if (env[ENV_VARS.credentialsJson]) {
+    credentialsJson = env[ENV_VARS.credentialsJson];
+    credentialsSource = 'env';
+  } else if (env[ENV_VARS.credentialsPath]) {
+    credentialsPath = expandHome(env[ENV_VARS.credentialsPath]!);
+    credentialsSource = 'env';
+  }
+
+  let tokenDir = configDir;
+  let tokenDirSource: PathSource = configDirSource;
+  const cliTokenDir = getCliFlag(argv, CLI_FLAGS.tokenDir);
+  if (cliTokenDir) {
+    tokenDir = expandHome(cliTokenDir);
+    tokenDirSource = 'cli';
+  } else if (env[ENV_VARS.tokenDir]) {
+    tokenDir = expandHome(env[ENV_VARS.tokenDir]!);
+    tokenDirSource = 'env';
+  }
+
+  return {
+    configDir,
+    configDirSource,
+    credentialsPath,
+    credentialsJson,
+    credentialsSource,
+    tokenDir,
+    tokenDirSource
+  };
+}
+
+export function describePathSource(source: PathSource): string {
+  switch (source) {
+    case 'cli':
+      return 'command-line flag';
+    case 'env':
+      return 'environment variable';
+    case 'legacy':
+      return 'legacy ./src/auth directory';
+    case 'default':
+      return 'default config directory';
+  }
+}
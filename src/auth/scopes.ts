@@ -0,0 +1,63 @@
+import { ToolConfig } from '../types.js';
+import { ENV_VARS, CLI_FLAGS } from './paths.js';
+
+export const YOUTUBE_READONLY_SCOPE = 'https://www.googleapis.com/auth/youtube.readonly';
+export const YT_ANALYTICS_READONLY_SCOPE = 'https://www.googleapis.com/auth/yt-analytics.readonly';
+export const YOUTUBE_PARTNER_SCOPE = 'https://www.googleapis.com/auth/youtubepartner';
+export const YT_ANALYTICS_MONETARY_SCOPE = 'https://www.googleapis.com/auth/yt-analytics-monetary.readonly';
+
+// Broader scopes that also satisfy a narrower requirement
+const SCOPE_EQUIVALENTS: Record<string, string[]> = {
+  [YOUTUBE_READONLY_SCOPE]: [
+    'https://www.googleapis.com/auth/youtube',
+    'https://www.googleapis.com/auth/youtube.force-ssl',
+    YOUTUBE_PARTNER_SCOPE
+  ],
+  [YT_ANALYTICS_READONLY_SCOPE]: [
+    YT_ANALYTICS_MONETARY_SCOPE
+  ]
+};
+
+// Default scope requirements by ToolConfig category; tools can override with requiredScopes
+const CATEGORY_SCOPES: Record<string, string[]> = {
+  channel: [YOUTUBE_READONLY_SCOPE],
+  health: [YT_ANALYTICS_READONLY_SCOPE],
+  audience: [YT_ANALYTICS_READONLY_SCOPE],
+  discovery: [YT_ANALYTICS_READONLY_SCOPE],
+  performance: [YT_ANALYTICS_READONLY_SCOPE],
+  engagement: [YT_ANALYTICS_READONLY_SCOPE],
+  revenue: [YT_ANALYTICS_MONETARY_SCOPE]
+};
+
+/**
+ * Scopes requested during OAuth. The monetary scope is opt-in (--monetary or YOUTUBE_MCP_MONETARY=true)
+ * because it exposes revenue data and requires the account to be monetized.
+ */
+export function resolveRequestedScopes(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): string[] {
+  const scopes = [YOUTUBE_READONLY_SCOPE, YT_ANALYTICS_READONLY_SCOPE, YOUTUBE_PARTNER_SCOPE];
+  const monetary = argv.includes(CLI_FLAGS.monetary) || ['1', 'true', 'yes'].includes((env[ENV_VARS.monetary] || '').toLowerCase());
+  if (monetary) {
+    scopes.push(YT_ANALYTICS_MONETARY_SCOPE);
+  }
+  return scopes;
+}
+
+/**
+ * Tools that declare requiredScopes explicitly are opt-in: they are only exposed once those scopes are granted.
+ */
+export function isScopeGated(tool: ToolConfig): boolean {
+  return !!tool.requiredScopes && tool.requiredScopes.length > 0;
+}
+
+export function getRequiredScopes(tool: ToolConfig): string[] {
+  return tool.requiredScopes ?? CATEGORY_SCOPES[tool.category ?? ''] ?? [];
+}
+
+export function hasScope(grantedScopes: string[], scope: string): boolean {
+  return grantedScopes.includes(scope) ||
+    (SCOPE_EQUIVALENTS[scope] ?? []).some(equivalent => grantedScopes.includes(equivalent));
+}
+
+export function getMissingScopes(tool: ToolConfig, grantedScopes: string[]): string[] {
+  return getRequiredScopes(tool).filter(scope => !hasScope(grantedScopes, scope));
+}
@@ -0,0 +1,290 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createLogger } from '../utils/logger.js';
+import { CLI_FLAGS, ENV_VARS, getCliFlag } from './paths.js';
+import { AuthenticationError, TokenData } from './types.js';
+
+const log = createLogger('auth');
+
+export type TokenStoreKind = 'plaintext' | 'encrypted' | 'memory';
+
+export interface TokenStoreConfig {
+  kind: TokenStoreKind;
+  // Passphrase for the encrypted store, taken from the environment
+  key?: string;
+  // File whose contents are used as the passphrase for the encrypted store
+  keyFile?: string;
+}
+
+export interface TokenStore {
+  readonly kind: TokenStoreKind;
+  // False when tokens never touch disk and disappear on restart
+  readonly persistent: boolean;
+  read(accountId: string): Promise<TokenData | null>;
+  write(accountId: string, data: TokenData): Promise<void>;
+  remove(accountId: string): Promise<void>;
+}
+
+interface EncryptedTokenFile {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  salt: string;
+  iv: string;
+  authTag: string;
+  ciphertext: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+
+function isEncryptedTokenFile(value: unknown): value is EncryptedTokenFile {
+  return typeof value === 'object' && value !== null &&
+    'algorithm' in value && value.algorithm === ALGORITHM &&
+    'ciphertext' in value && typeof value.ciphertext === 'string';
+}
+
+export function isMissingFileError(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+}
+
+/**
+ * Stores one JSON file per account in a directory. Subclasses decide how the file content is encoded.
+ */
+export abstract class FileTokenStore implements TokenStore {
+  abstract readonly kind: TokenStoreKind;
+  readonly persistent = true;
+
+  constructor(protected readonly dir: string) {}
+
+  protected abstract encode(data: TokenData): Promise<string>;
+  protected abstract decode(content: string, filePath: string): Promise<TokenData>;
+
+  getTokenPath(accountId: string): string {
+    return path.join(this.dir, `${accountId}.json`);
+  }
+
+  async read(accountId: string): Promise<TokenData | null> {
+    return await this.readFile(this.getTokenPath(accountId));
+  }
+
+  async write(accountId: string, data: TokenData): Promise<void> {
+    await fs.mkdir(this.dir, { recursive: true, mode: 0o700 });
+    await this.writeFile(this.getTokenPath(accountId), data);
+  }
+
+  async remove(accountId: string): Promise<void> {
+    try {
+      await fs.unlink(this.getTokenPath(accountId));
+    } catch (error) {
+      if (!isMissingFileError(error)) {
+        throw error;
+      }
+    }
+  }
+
+  async readFile(filePath: string): Promise<TokenData | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch (error) {
+      if (isMissingFileError(error)) {
+        return null;
+      }
+      throw error;
+    }
+    return await this.decode(content, filePath);
+  }
+
+  async writeFile(filePath: string, data: TokenData): Promise<void> {
+    await fs.writeFile(filePath, await this.encode(data), { mode: 0o600 });
+    // writeFile only applies the mode on create, so tighten existing files too
+    await fs.chmod(filePath, 0o600);
+  }
+}
+
+export class PlaintextTokenStore extends FileTokenStore {
+  readonly kind = 'plaintext';
+
+  protected async encode(data: TokenData): Promise<string> {
+    return JSON.stringify(data, null, 2);
+  }
+
+  protected async decode(content: string, filePath: string): Promise<TokenData> {
+    const parsed = JSON.parse(content);
+    if (isEncryptedTokenFile(parsed)) {
+      throw new AuthenticationError(
+        `Token file ${filePath} is encrypted. Set ${ENV_VARS.tokenKey} or ${ENV_VARS.tokenKeyFile} to read it.`
+      );
+    }
+    return parsed;
+  }
+}
+
+export class EncryptedTokenStore extends FileTokenStore {
+  readonly kind = 'encrypted';
+  private secret: Promise<string> | null = null;
+
+  constructor(dir: string, private readonly loadSecret: () => Promise<string>) {
+    super(dir);
+  }
+
+  private async getSecret(): Promise<string> {
+    if (!this.secret) {
+      this.secret = this.loadSecret().catch(error => {
+        this.secret = null;
+        throw error;
+      });
+    }
+    return await this.secret;
+  }
+
+  protected async encode(data: TokenData): Promise<string> {
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = scryptSync(await this.getSecret(), salt, 32);
+
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(data), 'utf8'), cipher.final()]);
+
+    const file: EncryptedTokenFile = {
+      version: 1,
+      algorithm: ALGORITHM,
+      salt: salt.toString('base64'),
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64')
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  protected async decode(content: string, filePath: string): Promise<TokenData> {
+    const parsed = JSON.parse(content);
+
+    // Plaintext files written before encryption was enabled are still readable and get encrypted on next write
+    if (!isEncryptedTokenFile(parsed)) {
+      return parsed;
+    }
+
+    try {
+      const key = scryptSync(await this.getSecret(), Buffer.from(parsed.salt, 'base64'), 32);
+      const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(parsed.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(parsed.authTag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(parsed.ciphertext, 'base64')),
+        decipher.final()
+      ]);
+      return JSON.parse(plaintext.toString('utf8'));
+    } catch (error) {
+      if (error instanceof AuthenticationError) {
+        throw error;
+      }
+      throw new AuthenticationError(`Failed to decrypt token file ${filePath}: wrong key or corrupted file`);
+    }
+  }
+
+  isEncrypted(content: string): boolean {
+    try {
+      return isEncryptedTokenFile(JSON.parse(content));
+    } catch {
+      return false;
+    }
+  }
+}
+
+export class MemoryTokenStore implements TokenStore {
+  readonly kind = 'memory';
+  readonly persistent = false;
+  private tokens = new Map<string, TokenData>();
+
+  async read(accountId: string): Promise<TokenData | null> {
+    return this.tokens.get(accountId) ?? null;
+  }
+
+  async write(accountId: string, data: TokenData): Promise<void> {
+    this.tokens.set(accountId, { ...data });
+  }
+
+  async remove(accountId: string): Promise<void> {
+    this.tokens.delete(accountId);
+  }
+}
+
+/**
+ * Resolves the token store from CLI flags and environment. When no store is named,
+ * a configured key selects the encrypted store; otherwise tokens stay plaintext.
+ */
+export function resolveTokenStoreConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): TokenStoreConfig {
+  const key = env[ENV_VARS.tokenKey] || undefined;
+  const keyFile = getCliFlag(argv, CLI_FLAGS.tokenKeyFile) || env[ENV_VARS.tokenKeyFile] || undefined;
+  const requested = getCliFlag(argv, CLI_FLAGS.tokenStore) || env[ENV_VARS.tokenStore];
+
+  if (requested && !['plaintext', 'encrypted', 'memory'].includes(requested)) {
+    throw new Error(`Invalid token store "${requested}". Expected plaintext, encrypted or memory.`);
+  }
+
+  const kind = (requested as TokenStoreKind | undefined) ?? (key || keyFile ? 'encrypted' : 'plaintext');
+  return { kind, key, keyFile };
+}
+
+export function createTokenStore(config: TokenStoreConfig, tokensDir: string): TokenStore {
+  switch (config.kind) {
+    case 'memory':
+      return new MemoryTokenStore();
+    case 'encrypted':
+      return new EncryptedTokenStore(tokensDir, async () => {
+        if (config.key) {
+          return config.key;
+        }
+        if (config.keyFile) {
+          const secret = (await fs.readFile(config.keyFile, 'utf8')).trim();
+          if (secret) {
+            return secret;
+          }
+        }
+        throw new AuthenticationError(
+          `Encrypted token store requires a key. Set ${ENV_VARS.tokenKey} or point ${ENV_VARS.tokenKeyFile} at a key file.`
+        );
+      });
+    case 'plaintext':
+      return new PlaintextTokenStore(tokensDir);
+  }
+}
+
+/**
+ * Rewrites plaintext token files in place using the encrypted store.
+ * Files that are already encrypted are left untouched.
+ */
+export async function migratePlaintextTokens(store: EncryptedTokenStore, filePaths: string[]): Promise<{ migrated: string[]; skipped: string[]; failed: string[] }> {
+  const migrated: string[] = [];
+  const skipped: string[] = [];
+  const failed: string[] = [];
+
+  for (const filePath of filePaths) {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf8');
+    } catch {
+      continue;
+    }
+
+    if (store.isEncrypted(content)) {
+      skipped.push(filePath);
+      continue;
+    }
+
+    // A corrupt file is left as it is, so the remaining files are still migrated
+    let data: TokenData;
+    try {
+      data = JSON.parse(content);
+    } catch (error) {
+      log.warn(`Skipping unreadable token file ${filePath}`, error);
+      failed.push(filePath);
+      continue;
+    }
+
+    await store.writeFile(filePath, data);
+    migrated.push(filePath);
+  }
+
+  return { migrated, skipped, failed };
+}
@@ -1,59 +1,280 @@
 import { z } from "zod";
 import { ToolConfig, ToolContext } from '../types.js';
+import { formatAuthDiagnostics } from '../utils/formatters/auth.js';
+import { describePathSource } from './paths.js';
+import { getMissingScopes } from './scopes.js';
+import { AccountInfo } from './types.js';
+import { toolErrorResult } from '../utils/tool-errors.js';
+
+const accountInfoSchema = z.object({
+  channelId: z.string(),
+  title: z.string(),
+  addedAt: z.string()
+});
 
 export const authTools: ToolConfig[] = [
   {
     name: "check_auth_status",
-    description: "Check if the user is authenticated with YouTube",
+    description: "Check YouTube authentication without starting a login: granted scopes, token expiry, refresh token, authenticated channel and tools unusable due to missing scopes",
+    category: "authentication",
+    schema: z.object({
+      account: z.string().optional().describe("Optional account (channel ID or channel title) to check instead of the active account")
+    }),
+    outputSchema: z.object({
+      diagnostics: z.object({
+        authenticated: z.boolean(),
+        account: accountInfoSchema.optional(),
+        hasRefreshToken: z.boolean(),
+        accessTokenExpiry: z.number().optional(),
+        grantedScopes: z.array(z.string()),
+        channel: z.object({ id: z.string(), title: z.string() }).optional(),
+        errors: z.array(z.string())
+      }),
+      unusableTools: z.array(z.object({ name: z.string(), missingScopes: z.array(z.string()) })),
+      configuration: z.object({
+        configDir: z.string(),
+        credentials: z.string(),
+        tokenDir: z.string(),
+        tokenStore: z.string()
+      })
+    }),
+    handler: async ({ account }, { authManager, getRegisteredTools }: ToolContext) => {
+      try {
+        const diagnostics = await authManager.getAuthDiagnostics(account);
+        const paths = authManager.getPathInfo();
+
+        const unusableTools = diagnostics.authenticated
+          ? getRegisteredTools()
+              .map(tool => ({ name: tool.name, missingScopes: getMissingScopes(tool, diagnostics.grantedScopes) }))
+              .filter(tool => tool.missingScopes.length > 0)
+          : [];
+        
+        return {
+          content: [{
+            type: "text",
+            text: `${formatAuthDiagnostics(diagnostics, unusableTools)}
+
+Configuration Sources:
+• Config directory: ${paths.configDir} (${describePathSource(paths.configDirSource)})
+• Credentials: ${paths.credentialsLocation} (${describePathSource(paths.credentialsSource)})
+• Token directory: ${paths.tokenDir} (${describePathSource(paths.tokenDirSource)})
+• Token store: ${authManager.getTokenStoreKind()}`
+          }],
+          structuredContent: {
+            diagnostics,
+            unusableTools,
+            configuration: {
+              configDir: paths.configDir,
+              credentials: paths.credentialsLocation,
+              tokenDir: paths.tokenDir,
+              tokenStore: authManager.getTokenStoreKind()
+            }
+          }
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+  {
+    name: "revoke_auth",
+    description: "Revoke YouTube authentication and remove stored tokens",
+    category: "authentication",
+    schema: z.object({
+      account: z.string().optional().describe("Optional account (channel ID or channel title) to revoke instead of the active account")
+    }),
+    outputSchema: z.object({
+      revoked: z.boolean(),
+      account: z.string().optional()
+    }),
+    handler: async ({ account }, { authManager, clearYouTubeClientCache }: ToolContext) => {
+      try {
+        const accountId = await authManager.resolveAccountId(account);
+        await authManager.revokeToken(account);
+        
+        // Clear YouTube client cache
+        clearYouTubeClientCache(accountId ?? undefined);
+        
+        return {
+          content: [{
+            type: "text",
+            text: "Authentication revoked successfully. You will need to re-authenticate to use YouTube tools."
+          }],
+          structuredContent: { revoked: true, account: accountId ?? undefined }
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+  {
+    name: "list_accounts",
+    description: "List all YouTube accounts (channels) with stored credentials and show which one is active",
     category: "authentication",
     schema: z.object({}),
+    outputSchema: z.object({
+      accounts: z.array(accountInfoSchema.extend({ active: z.boolean() }))
+    }),
     handler: async (_, { authManager }: ToolContext) => {
       try {
-        const isAuthenticated = await authManager.isAuthenticated();
-        
+        const accounts: Array<AccountInfo & { active: boolean }> = await authManager.listAccounts();
+
+        if (accounts.length === 0) {
+          return {
+            content: [{
+              type: "text",
+              text: "No accounts configured. Use add_account to authenticate a YouTube channel."
+            }],
+            structuredContent: { accounts }
+          };
+        }
+
+        let text = `YouTube Accounts (${accounts.length}):\n\n`;
+        accounts.forEach(info => {
+          text += `${info.active ? '✅' : '▫️'} ${info.title} (${info.channelId})${info.active ? ' - active' : ''}\n`;
+        });
+
+        return {
+          content: [{
+            type: "text",
+            text
+          }],
+          structuredContent: { accounts }
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+  {
+    name: "add_account",
+    description: "Authenticate an additional YouTube channel and store its token alongside existing accounts",
+    category: "authentication",
+    schema: z.object({}),
+    outputSchema: z.object({
+      account: accountInfoSchema
+    }),
+    handler: async (_, { authManager }: ToolContext) => {
+      try {
+        const info = await authManager.addAccount();
+
         return {
           content: [{
             type: "text",
-            text: `Authentication Status: ${isAuthenticated ? 'Authenticated' : 'Not Authenticated'}`
-          }]
+            text: `Account added: ${info.title} (${info.channelId}). Use switch_account to make it active or pass it as the account parameter.`
+          }],
+          structuredContent: { account: info }
         };
       } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+  {
+    name: "switch_account",
+    description: "Switch the active YouTube account used by tools when no account parameter is given",
+    category: "authentication",
+    schema: z.object({
+      account: z.string().describe("Account to activate (channel ID or channel title)")
+    }),
+    outputSchema: z.object({
+      account: accountInfoSchema
+    }),
+    handler: async ({ account }, { authManager }: ToolContext) => {
+      try {
+        const info = await authManager.switchAccount(account);
+
         return {
           content: [{
             type: "text",
-            text: `Error checking auth status: ${error instanceof Error ? error.message : String(error)}`
+            text: `Active account switched to ${info.title} (${info.channelId}).`
           }],
-          isError: true
+          structuredContent: { account: info }
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
   {
-    name: "revoke_auth",
-    description: "Revoke YouTube authentication and remove stored tokens",
+    name: "remove_account",
+    description: "Revoke and remove a stored YouTube account",
+    category: "authentication",
+    schema: z.object({
+      account: z.string().describe("Account to remove (channel ID or channel title)")
+    }),
+    outputSchema: z.object({
+      account: accountInfoSchema
+    }),
+    handler: async ({ account }, { authManager, clearYouTubeClientCache }: ToolContext) => {
+      try {
+        const info = await authManager.removeAccount(account);
+        clearYouTubeClientCache(info.channelId);
+
+        return {
+          content: [{
+            type: "text",
+            text: `Account removed: ${info.title} (${info.channelId}).`
+          }],
+          structuredContent: { account: info }
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+  {
+    name: "start_auth",
+    description: "Start a headless OAuth flow and get an authorization URL to open in any browser (no local browser required)",
     category: "authentication",
     schema: z.object({}),
-    handler: async (_, { authManager, clearYouTubeClientCache }: ToolContext) => {
+    outputSchema: z.object({
+      authUrl: z.string(),
+      expiresInMinutes: z.number()
+    }),
+    handler: async (_, { authManager }: ToolContext) => {
       try {
-        await authManager.revokeToken();
-        
-        // Clear YouTube client cache
-        clearYouTubeClientCache();
-        
+        const authUrl = await authManager.startAuth();
+
         return {
           content: [{
             type: "text",
-            text: "Authentication revoked successfully. You will need to re-authenticate to use YouTube tools."
-          }]
+            text: `Open this URL in any browser and grant access:\n\n${authUrl}\n\n` +
+              "After approving, the browser is redirected to the configured redirect URI (the page may fail to load). " +
+              "Copy the full redirect URL from the address bar, or just the code parameter, and pass it to complete_auth. " +
+              "The authorization URL expires in 10 minutes."
+          }],
+          structuredContent: { authUrl, expiresInMinutes: 10 }
         };
       } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+  {
+    name: "complete_auth",
+    description: "Complete a headless OAuth flow started with start_auth using the authorization code or redirect URL",
+    category: "authentication",
+    schema: z.object({
+      code: z.string().describe("Authorization code, or the full redirect URL copied from the browser")
+    }),
+    outputSchema: z.object({
+      account: accountInfoSchema
+    }),
+    handler: async ({ code }, { authManager, clearYouTubeClientCache }: ToolContext) => {
+      try {
+        const info = await authManager.completeAuth(code);
+        clearYouTubeClientCache(info.channelId);
+
         return {
           content: [{
             type: "text",
-            text: `Error revoking auth: ${error instanceof Error ? error.message : String(error)}`
+            text: `Authentication successful for ${info.title} (${info.channelId}). Tokens saved.`
           }],
-          isError: true
+          structuredContent: { account: info }
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
@@ -1,14 +1,19 @@
+import { OAuth2Client } from 'google-auth-library';
 
-export interface AuthConfig {
-    web: {
-      client_id: string;
-      project_id: string;
-      auth_uri: string;
-      token_uri: string;
-      auth_provider_x509_cert_url: string;
-      client_secret: string;
-      redirect_uris: string[];
-    };
+export interface OAuthClientConfig {
+    client_id: string;
+    project_id: string;
+    auth_uri: string;
+    token_uri: string;
+    auth_provider_x509_cert_url: string;
+    client_secret: string;
+    redirect_uris: string[];
+  }
+  
+  // Google Cloud Console downloads "web" or "installed" (desktop) client configs
+  export interface AuthConfig {
+    web?: OAuthClientConfig;
+    installed?: OAuthClientConfig;
   }
   
   export interface TokenData {
@@ -47,4 +52,33 @@ export interface AuthConfig {
       super(message);
       this.name = 'RateLimitError';
     }
+  }
+  
+  // Multi-account types
+  export interface AccountInfo {
+    channelId: string;
+    title: string;
+    addedAt: string;
+  }
+  
+  export interface PendingAuth {
+    client: OAuth2Client;
+    state: string;
+    codeVerifier?: string;
+    expiresAt: number;
+  }
+  
+  export interface AccountIndex {
+    activeAccount?: string;
+    accounts: Record<string, AccountInfo>;
+  }
+  
+  export interface AuthDiagnostics {
+    authenticated: boolean;
+    account?: AccountInfo;
+    hasRefreshToken: boolean;
+    accessTokenExpiry?: number;
+    grantedScopes: string[];
+    channel?: { id: string; title: string };
+    errors: string[];
   }
\ No newline at end of file
@@ -0,0 +1,147 @@
+import { YouTubeClient } from './youtube/youtube-client.js';
+import { PlaylistSummary, UploadedVideo } from './youtube/types.js';
+import { CacheStats } from './types.js';
+import { createLogger } from './utils/logger.js';
+
+const log = createLogger('completions');
+
+// MCP caps completion results at 100 values
+const MAX_COMPLETIONS = 100;
+// Completions fire on every keystroke, so API-backed lists are reused for a few minutes
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export const PERIOD_PRESETS = ['7d', '28d', '30d', '90d', '365d', 'custom'];
+
+// ISO 3166-1 alpha-2 codes, as used by the YouTube Analytics country dimension
+export const COUNTRY_CODES = (
+  'AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ ' +
+  'CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR ' +
+  'GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO JP ' +
+  'KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR MS MT ' +
+  'MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO RS RU RW ' +
+  'SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV TW TZ UA UG ' +
+  'UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW'
+).split(' ');
+
+interface CachedList<T> {
+  expiresAt: number;
+  items: Promise<T[]>;
+}
+
+let getClient: (() => Promise<YouTubeClient>) | null = null;
+let uploadsCache: CachedList<UploadedVideo> | null = null;
+let playlistsCache: CachedList<PlaylistSummary> | null = null;
+let cacheHits = 0;
+let cacheMisses = 0;
+
+/**
+ * Connects API-backed completions to the active account. Until this is called,
+ * video and playlist completions return no suggestions.
+ */
+export function setCompletionClientProvider(provider: () => Promise<YouTubeClient>): void {
+  getClient = provider;
+  clearCompletionCache();
+}
+
+export function clearCompletionCache(): void {
+  uploadsCache = null;
+  playlistsCache = null;
+}
+
+export function getCompletionCacheStats(): CacheStats {
+  const now = Date.now();
+  return {
+    entries: [uploadsCache, playlistsCache].filter(cache => cache && cache.expiresAt > now).length,
+    hits: cacheHits,
+    misses: cacheMisses
+  };
+}
+
+function filterByPrefix(values: string[], prefix: string | undefined): string[] {
+  const needle = (prefix || '').toLowerCase();
+  return values.filter(value => value.toLowerCase().startsWith(needle)).slice(0, MAX_COMPLETIONS);
+}
+
+// The whole uploads catalog, so older videos complete too; its API pages also sit in the response cache
+async function getUploads(): Promise<UploadedVideo[]> {
+  if (!getClient) {
+    return [];
+  }
+  if (!uploadsCache || uploadsCache.expiresAt <= Date.now()) {
+    cacheMisses += 1;
+    const provider = getClient;
+    uploadsCache = { expiresAt: Date.now() + CACHE_TTL_MS, items: provider().then(client => client.listAllUploads()) };
+  } else {
+    cacheHits += 1;
+  }
+  return await uploadsCache.items;
+}
+
+async function getPlaylists(): Promise<PlaylistSummary[]> {
+  if (!getClient) {
+    return [];
+  }
+  if (!playlistsCache || playlistsCache.expiresAt <= Date.now()) {
+    cacheMisses += 1;
+    const provider = getClient;
+    playlistsCache = { expiresAt: Date.now() + CACHE_TTL_MS, items: provider().then(client => client.listPlaylists(50)) };
+  } else {
+    cacheHits += 1;
+  }
+  return await playlistsCache.items;
+}
+
+// Matches video IDs by ID prefix or by (case-insensitive) title prefix of the channel's uploads
+export async function completeVideoId(value: string | undefined): Promise<string[]> {
+  try {
+    const needle = (value || '').toLowerCase();
+    const uploads = await getUploads();
+    return uploads
+      .filter(video => video.videoId.toLowerCase().startsWith(needle) || video.title.toLowerCase().startsWith(needle))
+      .map(video => video.videoId)
+      .slice(0, MAX_COMPLETIONS);
+  } catch (error) {
+    // Completion failures must never break the client; drop the cache so the next keystroke retries
+    uploadsCache = null;
+    log.debug("Video ID completion failed", error);
+    return [];
+  }
+}
+
+// Matches playlist IDs by ID prefix or by title prefix
+export async function completePlaylistId(value: string | undefined): Promise<string[]> {
+  try {
+    const needle = (value || '').toLowerCase();
+    const playlists = await getPlaylists();
+    return playlists
+      .filter(playlist => playlist.id.toLowerCase().startsWith(needle) || playlist.title.toLowerCase().startsWith(needle))
+      .map(playlist => playlist.id)
+      .slice(0, MAX_COMPLETIONS);
+  } catch (error) {
+    playlistsCache = null;
+    log.debug("Playlist ID completion failed", error);
+    return [];
+  }
+}
+
+export function completeCountryCode(value: string | undefined): string[] {
+  return filterByPrefix(COUNTRY_CODES, value);
+}
+
+export function completePeriod(value: string | undefined): string[] {
+  return filterByPrefix(PERIOD_PRESETS, value);
+}
+
+/**
+ * Resolves a period preset such as 7d or 90d to a date range ending today.
+ * Unknown presets fall back to 30 days.
+ */
+export function resolvePeriod(period: string): { startDate: string; endDate: string } {
+  const today = new Date();
+  const endDate = today.toISOString().split('T')[0];
+  const match = /^(\d+)d$/.exec(period);
+  const daysAgo = match ? Number(match[1]) : 30;
+  const pastDate = new Date(today);
+  pastDate.setDate(today.getDate() - daysAgo);
+  return { startDate: pastDate.toISOString().split('T')[0], endDate };
+}
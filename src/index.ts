@@ -1,138 +1,430 @@
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, RegisteredTool, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
 import { z } from 'zod';
 import { AuthManager } from './auth/auth-manager.js';
 import { AuthenticationError } from './auth/types.js';
+import { getMissingScopes, isScopeGated, YOUTUBE_PARTNER_SCOPE, YOUTUBE_READONLY_SCOPE, YT_ANALYTICS_MONETARY_SCOPE, YT_ANALYTICS_READONLY_SCOPE } from './auth/scopes.js';
 import { allTools } from './tool-configs.js';
 import { allPrompts } from './prompt-configs.js';
+import { allResources } from './resource-configs.js';
+import { clearCompletionCache, getCompletionCacheStats, setCompletionClientProvider } from './completions.js';
+import { attachLoggingServer, createLogger, runWithLoggingServer } from './utils/logger.js';
+import { toolErrorResult } from './utils/tool-errors.js';
+import { HttpServerHandle, isHttpMode, resolveHttpServerOptions, startHttpServer } from './server/http.js';
+import { PACKAGE_NAME, PACKAGE_VERSION } from './server/package-info.js';
+import { findUnknownFilterEntries, isToolEnabled, resolveToolFilter } from './server/tool-filter.js';
+import { ToolContext } from './types.js';
+import { resolveMockOptions, resolveQuotaTrackerOptions, resolveRecordingOptions, resolveRequestSchedulerOptions, resolveResponseCacheOptions, resolveYouTubeClientOptions } from './youtube/config.js';
+import { QuotaTracker } from './youtube/quota-tracker.js';
+import { RequestScheduler } from './youtube/request-scheduler.js';
+import { ResponseCache } from './youtube/response-cache.js';
+import { RequestContext } from './youtube/types.js';
 import { YouTubeClient } from './youtube/youtube-client.js';
+import { createGoogleBackend, YouTubeBackendFactory } from './youtube/backend.js';
+import { ApiRecorder, createRecordingBackend, createReplayBackend, loadRecordings } from './youtube/api-recorder.js';
+import { createFakeBackend, loadFakeFixtures } from './youtube/fake-backend.js';
+import { DEFAULT_FAKE_FIXTURES } from './youtube/fake-fixtures.js';
 
-// Create server instance
-const server = new McpServer({
-  name: "youtube-analytics-mcp",
-  version: "1.0.0",
-  capabilities: {
-    resources: {},
-    tools: {},
-    prompts: {},
-  },
-});
+const log = createLogger('server');
 
 // Initialize auth manager
 const authManager = new AuthManager();
 
-// Cache for YouTube client
-let youtubeClientCache: YouTubeClient | null = null;
+// Tool allow/deny lists and profile; tools filtered out here are never registered
+const toolFilter = resolveToolFilter();
+const enabledTools = allTools.filter(toolConfig => isToolEnabled(toolConfig, toolFilter));
+
+// Options shared by every YouTube client (content owner mode, ...)
+const youtubeClientOptions = resolveYouTubeClientOptions();
+
+// API response cache shared by all accounts and sessions; entries are scoped by channel ID
+const responseCache = new ResponseCache(resolveResponseCacheOptions());
+
+// Daily quota usage and budget, shared by all accounts of the Google Cloud project
+const quotaTracker = new QuotaTracker(resolveQuotaTrackerOptions());
+
+// Concurrency and rate limits shared by every API request of every account and session
+const requestScheduler = new RequestScheduler(resolveRequestSchedulerOptions());
+
+// Cache for YouTube clients, keyed by account (channel ID)
+const youtubeClientCache = new Map<string, YouTubeClient>();
+
+// With --mock or --replay every client is served offline and no Google account is involved
+const mockOptions = resolveMockOptions();
+const recordingOptions = resolveRecordingOptions();
+const mockBackend = mockOptions.enabled
+  ? createFakeBackend(mockOptions.fixturesPath ? loadFakeFixtures(mockOptions.fixturesPath) : DEFAULT_FAKE_FIXTURES)
+  : recordingOptions.replayPath ? createReplayBackend(loadRecordings(recordingOptions.replayPath)) : null;
+
+// With --record every API exchange is also written, sanitized, to the recording file
+const apiRecorder = recordingOptions.recordPath ? new ApiRecorder(recordingOptions.recordPath) : null;
+function withRecorder(backend: YouTubeBackendFactory): YouTubeBackendFactory {
+  return apiRecorder ? createRecordingBackend(backend, apiRecorder) : backend;
+}
+const MOCK_ACCOUNT_ID = 'mock';
+// Offline modes expose every tool, including the scope-gated ones
+const MOCK_GRANTED_SCOPES = [YOUTUBE_READONLY_SCOPE, YT_ANALYTICS_READONLY_SCOPE, YOUTUBE_PARTNER_SCOPE, YT_ANALYTICS_MONETARY_SCOPE];
+
+// All accounts share one offline client in mock and replay mode
+function getMockYouTubeClient(backend: YouTubeBackendFactory): YouTubeClient {
+  let client = youtubeClientCache.get(MOCK_ACCOUNT_ID);
+  if (!client) {
+    client = new YouTubeClient(withRecorder(backend), { ...youtubeClientOptions, cache: responseCache, cacheScope: MOCK_ACCOUNT_ID, quota: quotaTracker, scheduler: requestScheduler });
+    youtubeClientCache.set(MOCK_ACCOUNT_ID, client);
+  }
+  return client;
+}
 
 // Helper function to get YouTube client
-async function getYouTubeClient(): Promise<YouTubeClient> {
+async function getYouTubeClient(account?: string): Promise<YouTubeClient> {
+  if (mockBackend) {
+    return getMockYouTubeClient(mockBackend);
+  }
+
+  let accountId: string | null = null;
   try {
     // Return cached client if available
-    if (youtubeClientCache) {
-      return youtubeClientCache;
+    accountId = await authManager.resolveAccountId(account);
+    const cached = accountId ? youtubeClientCache.get(accountId) : undefined;
+    if (cached) {
+      return cached;
     }
 
-    const auth = await authManager.getAuthClient();
-    youtubeClientCache = new YouTubeClient(auth);
-    return youtubeClientCache;
+    const auth = await authManager.getAuthClient(account);
+    // The first login registers a new account, so resolve again afterwards
+    accountId = accountId ?? await authManager.resolveAccountId(account);
+    const client = new YouTubeClient(withRecorder(createGoogleBackend(auth)), { ...youtubeClientOptions, cache: responseCache, cacheScope: accountId ?? undefined, quota: quotaTracker, scheduler: requestScheduler });
+    if (accountId) {
+      youtubeClientCache.set(accountId, client);
+    }
+    return client;
   } catch (error) {
     // Clear cache on error
-    youtubeClientCache = null;
+    if (accountId) {
+      youtubeClientCache.delete(accountId);
+    }
     
     if (error instanceof AuthenticationError) {
-      throw new Error(`Authentication failed: ${error.message}`);
+      const accountLabel = error.account ? ` (account ${error.account})` : '';
+      throw new AuthenticationError(`Authentication failed${accountLabel}: ${error.message}`, error.account);
     }
     throw new Error(`Failed to get YouTube client: ${error}`);
   }
 }
 
-// Helper function to clear YouTube client cache
-function clearYouTubeClientCache(): void {
-  youtubeClientCache = null;
+// Helper function to clear YouTube client cache (one account, or all when omitted).
+// Cached API responses of the account go with it, so revoked accounts leave no data behind.
+function clearYouTubeClientCache(account?: string): void {
+  if (account) {
+    youtubeClientCache.delete(account);
+  } else {
+    youtubeClientCache.clear();
+  }
+  responseCache.clear(account);
 }
 
-// Register all tools
-allTools.forEach((toolConfig: any) => {
-  console.error(`Registering tool: ${toolConfig.name}`);
-  
-  server.registerTool(
-    toolConfig.name,
-    {
-      description: toolConfig.description,
-      inputSchema: toolConfig.schema?.shape || {},
+// Build the context for one tool call or resource read. YouTube clients handed out here are
+// bound to the call's abort signal and report every API sub-request as a progress step.
+function createCallContext(extra: RequestHandlerExtra<ServerRequest, ServerNotification>, toolName: string): ToolContext {
+  const progressToken = extra._meta?.progressToken;
+  let completedSteps = 0;
+
+  const reportProgress = async (progress: number, total?: number, message?: string) => {
+    if (progressToken === undefined || extra.signal.aborted) {
+      return;
+    }
+    await extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress, total, message }
+    });
+  };
+
+  const requestContext: RequestContext = {
+    signal: extra.signal,
+    toolName,
+    onProgress: (message) => {
+      completedSteps += 1;
+      reportProgress(completedSteps, undefined, message).catch((error) => {
+        log.warn("Failed to send progress notification", error);
+      });
+    }
+  };
+
+  return {
+    authManager,
+    getYouTubeClient: async (account?: string) => (await getYouTubeClient(account)).withContext(requestContext),
+    clearYouTubeClientCache,
+    getRegisteredTools: () => enabledTools,
+    getScopeHiddenTools: () => [...scopeHiddenTools],
+    getToolFilter: () => toolFilter,
+    getCacheStats: () => ({
+      responses: responseCache.getStats(),
+      youtubeClients: { entries: youtubeClientCache.size },
+      completions: getCompletionCacheStats()
+    }),
+    clearResponseCache: async (account?: string) => {
+      const accountId = account ? await authManager.resolveAccountId(account) : undefined;
+      if (account && !accountId) {
+        throw new Error(`Unknown account: ${account}`);
+      }
+      clearCompletionCache();
+      return responseCache.clear(accountId ?? undefined);
     },
-    async (params: any) => {
-      try {
-        console.error(`Executing tool: ${toolConfig.name}`);
-        return await toolConfig.handler(params, { 
-          authManager, 
-          getYouTubeClient, 
-          clearYouTubeClientCache 
-        });
-      } catch (error) {
-        console.error(`Error in tool ${toolConfig.name}:`, error);
-        return {
-          content: [{
-            type: "text",
-            text: `Error executing ${toolConfig.name}: ${error instanceof Error ? error.message : String(error)}`
-          }],
-          isError: true
-        };
+    getQuotaUsage: () => quotaTracker.getUsage(),
+    signal: extra.signal,
+    progressToken,
+    reportProgress
+  };
+}
+
+// Registered tool handles of every live server, used to show or hide scope-gated tools
+const registeredToolSets = new Set<Map<string, RegisteredTool>>();
+// Scope-gated tools currently hidden; they start hidden until the first sync
+const scopeHiddenTools = new Set(enabledTools.filter(isScopeGated).map(tool => tool.name));
+
+// Enable scope-gated tools only when the active account has granted their scopes
+async function syncScopedTools(): Promise<void> {
+  const grantedScopes = mockBackend ? MOCK_GRANTED_SCOPES : await authManager.getGrantedScopes();
+  enabledTools.filter(isScopeGated).forEach(toolConfig => {
+    const usable = getMissingScopes(toolConfig, grantedScopes).length === 0;
+    if (usable) {
+      scopeHiddenTools.delete(toolConfig.name);
+    } else {
+      scopeHiddenTools.add(toolConfig.name);
+    }
+    registeredToolSets.forEach(registeredTools => {
+      const registered = registeredTools.get(toolConfig.name);
+      if (!registered) {
+        return;
+      }
+      if (usable && !registered.enabled) {
+        registered.enable();
+      } else if (!usable && registered.enabled) {
+        registered.disable();
       }
+    });
+  });
+}
+
+// Create a server instance with every tool and prompt registered. Stdio uses a single
+// instance; HTTP mode creates one per session so sessions never share protocol state.
+function createServer(): McpServer {
+  const server = new McpServer({
+    name: PACKAGE_NAME,
+    version: PACKAGE_VERSION,
+    capabilities: {
+      resources: {},
+      tools: {},
+      prompts: {},
+    },
+  });
+  const detachLogging = attachLoggingServer(server.server);
+  const registeredTools = new Map<string, RegisteredTool>();
+  registeredToolSets.add(registeredTools);
+  server.server.onclose = () => {
+    registeredToolSets.delete(registeredTools);
+    detachLogging();
+  };
+
+  // Register all tools
+  enabledTools.forEach((toolConfig: any) => {
+    log.debug(`Registering tool: ${toolConfig.name}`);
+  
+    const registered = server.registerTool(
+      toolConfig.name,
+      {
+        description: toolConfig.description,
+        inputSchema: toolConfig.schema?.shape || {},
+        outputSchema: toolConfig.outputSchema?.shape,
+      },
+      (params: any, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => runWithLoggingServer(server.server, extra.sendNotification, async () => {
+        try {
+          log.info(`Executing tool: ${toolConfig.name}`);
+          const result = await toolConfig.handler(params, createCallContext(extra, toolConfig.name));
+          // Logins, revocations and account switches can change the granted scopes
+          if (toolConfig.category === 'authentication') {
+            await syncScopedTools();
+            // Completions list the active account's uploads and playlists
+            clearCompletionCache();
+          }
+          return result;
+        } catch (error) {
+          log.error(`Error in tool ${toolConfig.name}`, error);
+          return toolErrorResult(error);
+        }
+      })
+    );
+    registeredTools.set(toolConfig.name, registered);
+    if (isScopeGated(toolConfig)) {
+      // Hidden until syncScopedTools confirms the scopes are granted
+      registered.disable();
     }
-  );
-});
+  });
 
-console.error(`Total tools registered: ${allTools.length}`);
+  log.debug(`Total tools registered: ${enabledTools.length}`);
 
-// Register all prompts
-allPrompts.forEach((promptConfig: any) => {
-  console.error(`Registering prompt: ${promptConfig.name}`);
+  // Register all prompts
+  allPrompts.forEach((promptConfig: any) => {
+    log.debug(`Registering prompt: ${promptConfig.name}`);
   
-  server.registerPrompt(
-    promptConfig.name,
-    {
-      title: promptConfig.title,
-      description: promptConfig.description,
-      argsSchema: promptConfig.argsSchema,
-    },
-    async (args: any) => {
+    server.registerPrompt(
+      promptConfig.name,
+      {
+        title: promptConfig.title,
+        description: promptConfig.description,
+        argsSchema: promptConfig.argsSchema,
+      },
+      (args: any, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => runWithLoggingServer(server.server, extra.sendNotification, async () => {
+        try {
+          log.info(`Executing prompt: ${promptConfig.name}`);
+          return await promptConfig.handler(args);
+        } catch (error) {
+          log.error(`Error in prompt ${promptConfig.name}`, error);
+          return {
+            content: [{
+              type: "text",
+              text: `Error executing ${promptConfig.name}: ${error instanceof Error ? error.message : String(error)}`
+            }],
+            isError: true
+          };
+        }
+      })
+    );
+  });
+
+  log.debug(`Total prompts registered: ${allPrompts.length}`);
+
+  // Register all resources
+  allResources.forEach((resourceConfig) => {
+    log.debug(`Registering resource: ${resourceConfig.name}`);
+
+    const metadata = {
+      title: resourceConfig.title,
+      description: resourceConfig.description,
+      mimeType: resourceConfig.mimeType,
+    };
+    const read = (uri: URL, variables: Record<string, string | string[]>, extra: RequestHandlerExtra<ServerRequest, ServerNotification>) => runWithLoggingServer(server.server, extra.sendNotification, async () => {
       try {
-        console.error(`Executing prompt: ${promptConfig.name}`);
-        return await promptConfig.handler(args);
+        log.info(`Reading resource: ${uri.href}`);
+        const values = Object.fromEntries(
+          Object.entries(variables).map(([key, value]) => [key, Array.isArray(value) ? value[0] : value])
+        );
+        return await resourceConfig.handler(uri, values, createCallContext(extra, `resource:${resourceConfig.name}`));
       } catch (error) {
-        console.error(`Error in prompt ${promptConfig.name}:`, error);
-        return {
-          content: [{
-            type: "text",
-            text: `Error executing ${promptConfig.name}: ${error instanceof Error ? error.message : String(error)}`
-          }],
-          isError: true
-        };
+        // Resource reads have no isError result, so failures surface as protocol errors
+        log.error(`Error in resource ${resourceConfig.name}`, error);
+        throw error;
       }
+    });
+
+    if (resourceConfig.uriTemplate) {
+      server.registerResource(
+        resourceConfig.name,
+        new ResourceTemplate(resourceConfig.uriTemplate, { list: undefined, complete: resourceConfig.complete }),
+        metadata,
+        read
+      );
+    } else {
+      server.registerResource(resourceConfig.name, resourceConfig.uri!, metadata, (uri, extra) => read(uri, {}, extra));
     }
-  );
-});
+  });
+
+  log.debug(`Total resources registered: ${allResources.length}`);
 
-console.error(`Total prompts registered: ${allPrompts.length}`);
+  return server;
+}
+
+// Encrypt existing plaintext token files in place, then exit
+async function migrateTokens() {
+  const { migrated, skipped, failed } = await authManager.migrateTokenStorage();
+  migrated.forEach(file => log.info(`Encrypted: ${file}`));
+  skipped.forEach(file => log.info(`Already encrypted: ${file}`));
+  log.info(`Token migration complete: ${migrated.length} encrypted, ${skipped.length} skipped, ${failed.length} unreadable`);
+}
 
 async function main() {
+  if (process.argv[2] === 'migrate-tokens') {
+    await migrateTokens();
+    process.exit(0);
+  }
+
+  findUnknownFilterEntries(allTools, toolFilter).forEach(entry => {
+    log.warn(`Tool filter references unknown ${entry}`);
+  });
+  if (mockOptions.enabled) {
+    log.warn(`Mock mode: serving ${mockOptions.fixturesPath ?? 'built-in'} fixtures instead of the YouTube APIs`);
+  } else if (recordingOptions.replayPath) {
+    log.warn(`Replay mode: serving recorded responses from ${recordingOptions.replayPath} instead of the YouTube APIs`);
+  }
+  if (apiRecorder) {
+    log.info(`Recording sanitized API traffic to ${recordingOptions.recordPath}`);
+  }
+  if (enabledTools.length < allTools.length) {
+    log.info(`Tool filter (profile ${toolFilter.profile}) enables ${enabledTools.length} of ${allTools.length} tools`);
+  }
+
+  // Completions must never trigger an interactive login, so they stay empty until an account exists
+  setCompletionClientProvider(async () => {
+    if (!mockBackend && !await authManager.resolveAccountId()) {
+      throw new Error('Not authenticated');
+    }
+    return (await getYouTubeClient()).withContext({ toolName: 'completions' });
+  });
+
+  if (isHttpMode()) {
+    httpServer = await startHttpServer(async () => {
+      const server = createServer();
+      try {
+        await syncScopedTools();
+      } catch (error) {
+        // Not connected yet, so close() has no transport to trigger the cleanup in onclose
+        server.server.onclose?.();
+        throw error;
+      }
+      return server;
+    }, resolveHttpServerOptions());
+    log.info(`YouTube Analytics MCP Server running on ${httpServer.url}`);
+    return;
+  }
+
+  const server = createServer();
+  await syncScopedTools();
+
   const transport = new StdioServerTransport();
   await server.connect(transport);
-  console.error("YouTube Analytics MCP Server running on stdio");
+  log.info("YouTube Analytics MCP Server running on stdio");
 }
 
-process.on('SIGINT', async () => {
-  console.error("Shutting down server...");
-  process.exit(0);
-});
+// Set in --http mode so shutdown can close open sessions
+let httpServer: HttpServerHandle | null = null;
 
-process.on('SIGTERM', async () => {
-  console.error("Shutting down server...");
+async function shutdown() {
+  log.info("Shutting down server");
+  try {
+    await httpServer?.close();
+    await quotaTracker.flush();
+    await responseCache.flush();
+    await apiRecorder?.flush();
+  } catch (error) {
+    log.error("Error during shutdown", error);
+  }
   process.exit(0);
+}
+
+process.on('SIGINT', shutdown);
+
+process.on('SIGTERM', shutdown);
+
+// Pending saves are unref'd, so when stdin closes the process would exit without writing them
+process.on('beforeExit', () => {
+  Promise.all([quotaTracker.flush(), responseCache.flush(), apiRecorder?.flush()]).catch((error) => {
+    log.error("Error flushing state before exit", error);
+  });
 });
 
 main().catch((error) => {
-  console.error("Fatal error in main():", error);
+  log.error("Fatal error in main()", error);
   process.exit(1);
 });
\ No newline at end of file
@@ -1,33 +1,41 @@
 
+import { z } from "zod";
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import { completeCountryCode, completePeriod, completePlaylistId, completeVideoId, resolvePeriod } from './completions.js';
+
 export interface PromptConfig {
   name: string;
   title?: string;
   description: string;
-  argsSchema?: any;
+  argsSchema?: z.ZodRawShape; // Prompt arguments must be (optional) strings; wrap with completable() for completions
   handler: (args: any) => Promise<any>;
 }
 
+const periodArg = completable(
+  z.string().optional().describe("Time period (7d, 30d, 90d, or custom)"),
+  completePeriod
+);
+
 // YouTube Analytics Channel Report Prompt
 const channelReportPrompt: PromptConfig = {
   name: "youtube_channel_report",
   title: "YouTube Channel Performance Report",
   description: "Generate a comprehensive performance report for your YouTube channel",
   argsSchema: {
-    period: {
-      type: "string",
-      description: "Time period for the report (7d, 30d, 90d, or custom)"
-    },
-    start_date: {
-      type: "string", 
-      description: "Start date for custom period (YYYY-MM-DD)"
-    },
-    end_date: {
-      type: "string",
-      description: "End date for custom period (YYYY-MM-DD)"
-    }
+    period: periodArg,
+    start_date: z.string().optional().describe("Start date for custom period (YYYY-MM-DD)"),
+    end_date: z.string().optional().describe("End date for custom period (YYYY-MM-DD)"),
+    country: completable(
+      z.string().optional().describe("Optional two-letter country code to focus the audience analysis on"),
+      completeCountryCode
+    ),
+    playlist_id: completable(
+      z.string().optional().describe("Optional playlist ID to focus the content analysis on"),
+      completePlaylistId
+    )
   },
   handler: async (args: any) => {
-    const { period = "30d", start_date, end_date } = args;
+    const { period = "30d", start_date, end_date, country, playlist_id } = args;
     
     // Calculate date range
     let startDate: string;
@@ -37,13 +45,15 @@ const channelReportPrompt: PromptConfig = {
       startDate = start_date;
       endDate = end_date;
     } else {
-      const today = new Date();
-      endDate = today.toISOString().split('T')[0];
-      
-      const daysAgo = period === "7d" ? 7 : period === "90d" ? 90 : 30;
-      const pastDate = new Date(today);
-      pastDate.setDate(today.getDate() - daysAgo);
-      startDate = pastDate.toISOString().split('T')[0];
+      ({ startDate, endDate } = resolvePeriod(period));
+    }
+
+    let focus = "";
+    if (country) {
+      focus += `\nFocus country: ${country} (pay special attention to viewers from this country)`;
+    }
+    if (playlist_id) {
+      focus += `\nFocus playlist: ${playlist_id} (pay special attention to videos in this playlist)`;
     }
 
     return {
@@ -61,7 +71,7 @@ I want you to:
 Use the available YouTube Analytics MCP tools to gather this data and create a comprehensive report with specific metrics, trends, and strategic recommendations for improving channel performance.
 
 Time period: ${period}
-Date range: ${startDate} to ${endDate}`
+Date range: ${startDate} to ${endDate}${focus}`
       }]
     };
   }
@@ -73,25 +83,17 @@ const videoAnalysisPrompt: PromptConfig = {
   title: "YouTube Video Performance Analysis", 
   description: "Analyze the performance of a specific YouTube video",
   argsSchema: {
-    video_id: {
-      type: "string",
-      description: "YouTube video ID to analyze"
-    },
-    period: {
-      type: "string",
-      description: "Analysis period (7d, 30d, 90d, or custom)"
-    }
+    video_id: completable(
+      z.string().describe("YouTube video ID to analyze (completes from your uploads by title or ID)"),
+      completeVideoId
+    ),
+    period: periodArg
   },
   handler: async (args: any) => {
     const { video_id, period = "30d" } = args;
     
     // Calculate date range
-    const today = new Date();
-    const endDate = today.toISOString().split('T')[0];
-    const daysAgo = period === "7d" ? 7 : period === "90d" ? 90 : 30;
-    const pastDate = new Date(today);
-    pastDate.setDate(today.getDate() - daysAgo);
-    const startDate = pastDate.toISOString().split('T')[0];
+    const { startDate, endDate } = resolvePeriod(period);
 
     return {
       content: [{
@@ -121,10 +123,10 @@ const contentStrategyPrompt: PromptConfig = {
   title: "YouTube Content Strategy Recommendations",
   description: "Get data-driven content strategy recommendations based on your channel performance",
   argsSchema: {
-    focus_area: {
-      type: "string",
-      description: "Area to focus on: audience_growth, engagement, watch_time, or overall"
-    }
+    focus_area: completable(
+      z.string().optional().describe("Area to focus on: audience_growth, engagement, watch_time, or overall"),
+      (value) => ["audience_growth", "engagement", "watch_time", "overall"].filter(area => area.startsWith(value || ""))
+    )
   },
   handler: async (args: any) => {
     const { focus_area = "overall" } = args;
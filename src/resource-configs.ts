@@ -0,0 +1,128 @@
+import { ToolContext } from './types.js';
+import { completeVideoId } from './completions.js';
+import { parseAnalyticsResponse } from './utils/transformers/analytics.js';
+import { assertDateRange } from './utils/validators.js';
+
+export interface ResourceResult {
+  [key: string]: unknown;
+  contents: Array<{
+    uri: string;
+    mimeType?: string;
+    text: string;
+  }>;
+}
+
+export interface ResourceConfig {
+  name: string;
+  title?: string;
+  description: string;
+  // Either a fixed URI or a URI template such as youtube://video/{videoId}
+  uri?: string;
+  uriTemplate?: string;
+  mimeType?: string;
+  // Completion callbacks for template variables, keyed by variable name
+  complete?: Record<string, (value: string) => string[] | Promise<string[]>>;
+  handler: (uri: URL, variables: Record<string, string>, context: ToolContext) => Promise<ResourceResult>;
+}
+
+const SNAPSHOT_METRICS = [
+  'views',
+  'estimatedMinutesWatched',
+  'averageViewDuration',
+  'averageViewPercentage',
+  'likes',
+  'comments',
+  'shares',
+  'subscribersGained'
+];
+
+function jsonResource(uri: URL, data: unknown): ResourceResult {
+  return {
+    contents: [{
+      uri: uri.href,
+      mimeType: "application/json",
+      text: JSON.stringify(data, null, 2)
+    }]
+  };
+}
+
+
+// Authenticated channel
+const channelResource: ResourceConfig = {
+  name: "channel",
+  title: "YouTube Channel",
+  description: "Channel info (title, description, statistics) for the active account",
+  uri: "youtube://channel",
+  mimeType: "application/json",
+  handler: async (uri, _, { getYouTubeClient }) => {
+    const youtubeClient = await getYouTubeClient();
+    const channelInfo = await youtubeClient.getChannelInfo();
+    return jsonResource(uri, channelInfo);
+  }
+};
+
+// Recent uploads of the authenticated channel
+const videosResource: ResourceConfig = {
+  name: "videos",
+  title: "YouTube Uploads",
+  description: "Most recent uploads of the active account's channel",
+  uri: "youtube://videos",
+  mimeType: "application/json",
+  handler: async (uri, _, { getYouTubeClient }) => {
+    const youtubeClient = await getYouTubeClient();
+    const videos = await youtubeClient.getChannelVideos(50);
+    return jsonResource(uri, videos);
+  }
+};
+
+// Single video details
+const videoResource: ResourceConfig = {
+  name: "video",
+  title: "YouTube Video",
+  description: "Snippet, statistics and content details for a video",
+  uriTemplate: "youtube://video/{videoId}",
+  mimeType: "application/json",
+  complete: { videoId: completeVideoId },
+  handler: async (uri, { videoId }, { getYouTubeClient }) => {
+    const youtubeClient = await getYouTubeClient();
+    const video = await youtubeClient.getVideoDetails(videoId);
+    return jsonResource(uri, video);
+  }
+};
+
+// Video analytics totals for a date range
+const videoAnalyticsResource: ResourceConfig = {
+  name: "video_analytics",
+  title: "YouTube Video Analytics",
+  description: "Analytics totals (views, watch time, retention, engagement, subscribers) for a video over a date range",
+  uriTemplate: "youtube://video/{videoId}/analytics/{startDate}/{endDate}",
+  mimeType: "application/json",
+  complete: { videoId: completeVideoId },
+  handler: async (uri, { videoId, startDate, endDate }, { getYouTubeClient }) => {
+    assertDateRange(startDate, endDate);
+
+    const youtubeClient = await getYouTubeClient();
+    const rawData = await youtubeClient.getVideoAnalytics(videoId, {
+      startDate,
+      endDate,
+      metrics: SNAPSHOT_METRICS
+    });
+
+    // Without dimensions the report has a single row of totals
+    const parsedData = parseAnalyticsResponse(rawData);
+    const row = parsedData.rows[0] || [];
+    const metrics: { [metric: string]: number } = {};
+    parsedData.columnHeaders.forEach((header, index) => {
+      metrics[header.name] = Number(row[index]) || 0;
+    });
+
+    return jsonResource(uri, { videoId, startDate, endDate, metrics });
+  }
+};
+
+export const allResources: ResourceConfig[] = [
+  channelResource,
+  videosResource,
+  videoResource,
+  videoAnalyticsResource
+];
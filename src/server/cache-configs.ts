@@ -0,0 +1,33 @@
+import { z } from "zod";
+import { ToolConfig, ToolContext } from '../types.js';
+import { toolErrorResult } from '../utils/tool-errors.js';
+
+export const cacheTools: ToolConfig[] = [
+  {
+    name: "clear_cache",
+    description: "Clear cached YouTube API responses so the next calls fetch fresh data",
+    category: "server",
+    schema: z.object({
+      account: z.string().optional().describe("Only clear responses cached for this account (channel ID or channel title); defaults to all accounts")
+    }),
+    outputSchema: z.object({
+      removedEntries: z.number(),
+      account: z.string().optional()
+    }),
+    handler: async ({ account }, { clearResponseCache }: ToolContext) => {
+      try {
+        const removedEntries = await clearResponseCache(account);
+
+        return {
+          content: [{
+            type: "text",
+            text: `Cleared ${removedEntries} cached response${removedEntries === 1 ? '' : 's'}${account ? ` for account ${account}` : ''}.`
+          }],
+          structuredContent: { removedEntries, account }
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+];
@@ -0,0 +1,244 @@
+import { createHash, randomUUID, timingSafeEqual } from 'crypto';
+import { createServer as createHttpServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { getCliFlag } from '../auth/paths.js';
+import { createLogger } from '../utils/logger.js';
+
+const log = createLogger('http');
+
+export const HTTP_ENV_VARS = {
+  port: 'YOUTUBE_MCP_HTTP_PORT',
+  host: 'YOUTUBE_MCP_HTTP_HOST',
+  token: 'YOUTUBE_MCP_HTTP_TOKEN',
+  sessionTimeout: 'YOUTUBE_MCP_HTTP_SESSION_TIMEOUT'
+} as const;
+
+export const HTTP_CLI_FLAGS = {
+  http: '--http',
+  port: '--port',
+  host: '--host',
+  sessionTimeout: '--session-timeout'
+} as const;
+
+export const MCP_ENDPOINT = '/mcp';
+
+const DEFAULT_PORT = 3000;
+const DEFAULT_HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const DEFAULT_SESSION_TIMEOUT_SECONDS = 30 * 60;
+
+export interface HttpServerOptions {
+  port: number;
+  host: string;
+  // Shared secret clients must send as `Authorization: Bearer <token>`
+  token: string;
+  // Sessions without open requests or streams for this long are closed; 0 keeps them forever
+  sessionTimeoutMs: number;
+}
+
+export interface HttpServerHandle {
+  url: string;
+  close(): Promise<void>;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  // Requests still being answered, including open SSE streams
+  openRequests: number;
+  idleTimer?: NodeJS.Timeout;
+}
+
+export function isHttpMode(argv: string[] = process.argv.slice(2)): boolean {
+  return argv.includes(HTTP_CLI_FLAGS.http);
+}
+
+/**
+ * Resolves HTTP transport options from CLI flags (highest precedence) and environment variables.
+ * The bearer token is only read from the environment so it never shows up in process listings.
+ */
+export function resolveHttpServerOptions(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): HttpServerOptions {
+  const rawPort = getCliFlag(argv, HTTP_CLI_FLAGS.port) || env[HTTP_ENV_VARS.port];
+  const port = rawPort ? Number(rawPort) : DEFAULT_PORT;
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid HTTP port "${rawPort}"`);
+  }
+
+  const rawTimeout = getCliFlag(argv, HTTP_CLI_FLAGS.sessionTimeout) || env[HTTP_ENV_VARS.sessionTimeout];
+  const sessionTimeout = rawTimeout ? Number(rawTimeout) : DEFAULT_SESSION_TIMEOUT_SECONDS;
+  if (!Number.isFinite(sessionTimeout) || sessionTimeout < 0) {
+    throw new Error(`Invalid HTTP session timeout "${rawTimeout}". Expected seconds, or 0 to disable`);
+  }
+
+  const token = env[HTTP_ENV_VARS.token];
+  if (!token) {
+    throw new Error(`HTTP mode requires a bearer token. Set ${HTTP_ENV_VARS.token}.`);
+  }
+
+  return {
+    port,
+    host: getCliFlag(argv, HTTP_CLI_FLAGS.host) || env[HTTP_ENV_VARS.host] || DEFAULT_HOST,
+    token,
+    sessionTimeoutMs: sessionTimeout * 1000
+  };
+}
+
+function isAuthorized(req: IncomingMessage, token: string): boolean {
+  const header = req.headers.authorization;
+  if (!header?.startsWith('Bearer ')) {
+    return false;
+  }
+  // Compare fixed-length digests so the check runs in constant time
+  const expected = createHash('sha256').update(token).digest();
+  const actual = createHash('sha256').update(header.slice('Bearer '.length).trim()).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+}
+
+/**
+ * Serves the MCP Streamable HTTP transport. Every session gets its own server instance
+ * from createServer, while auth and YouTube clients stay shared by the process.
+ */
+export async function startHttpServer(createServer: () => Promise<McpServer>, options: HttpServerOptions): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+
+  // Counts the request against the session and restarts the idle timeout once none are open
+  function trackRequest(session: Session, res: ServerResponse): void {
+    session.openRequests++;
+    clearTimeout(session.idleTimer);
+    res.once('close', () => {
+      session.openRequests--;
+      if (session.openRequests > 0 || options.sessionTimeoutMs <= 0) {
+        return;
+      }
+      session.idleTimer = setTimeout(() => {
+        log.info(`HTTP session idle for ${options.sessionTimeoutMs / 1000}s, closing: ${session.transport.sessionId}`);
+        session.server.close().catch((error) => log.warn('Failed to close idle HTTP session', error));
+      }, options.sessionTimeoutMs);
+      session.idleTimer.unref();
+    });
+  }
+
+  async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== MCP_ENDPOINT) {
+      sendJsonRpcError(res, 404, `Not found. The MCP endpoint is ${MCP_ENDPOINT}`);
+      return;
+    }
+
+    if (!isAuthorized(req, options.token)) {
+      sendJsonRpcError(res, 401, 'Unauthorized', { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (error) {
+        sendJsonRpcError(res, 400, `Invalid request body: ${error instanceof Error ? error.message : String(error)}`);
+        return;
+      }
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    if (typeof sessionId === 'string') {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      trackRequest(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad request: no valid session ID provided');
+      return;
+    }
+
+    const server = await createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        const session: Session = { transport, server, openRequests: 0 };
+        sessions.set(id, session);
+        trackRequest(session, res);
+        log.info(`HTTP session started: ${id}`);
+      }
+    });
+    transport.onclose = () => {
+      const session = transport.sessionId ? sessions.get(transport.sessionId) : undefined;
+      if (session) {
+        clearTimeout(session.idleTimer);
+        sessions.delete(transport.sessionId!);
+        log.info(`HTTP session closed: ${transport.sessionId}`);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A rejected or failed initialize never creates a session; close the server so its tools are released
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+        await server.close();
+      }
+    }
+  }
+
+  const httpServer: Server = createHttpServer((req, res) => {
+    handleRequest(req, res).catch((error) => {
+      log.error('Error handling HTTP request', error);
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      } else {
+        res.end();
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = httpServer.address();
+  const port = typeof address === 'object' && address ? address.port : options.port;
+
+  return {
+    url: `http://${options.host}:${port}${MCP_ENDPOINT}`,
+    close: async () => {
+      // Close sessions first so open SSE streams end and the HTTP server can stop
+      await Promise.all([...sessions.values()].map(({ server }) => server.close()));
+      sessions.clear();
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    }
+  };
+}
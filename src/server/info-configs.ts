@@ -1,21 +1,104 @@
 import { z } from "zod";
-import { ToolConfig } from '../types.js';
+import { allPrompts } from '../prompt-configs.js';
+import { ToolConfig, ToolContext } from '../types.js';
+import { getApiUsageStats } from '../youtube/api-stats.js';
+import { PACKAGE_NAME, PACKAGE_VERSION } from './package-info.js';
+
+const cacheStatsSchema = z.object({
+  entries: z.number(),
+  hits: z.number().optional(),
+  misses: z.number().optional(),
+  staleHits: z.number().optional(),
+  mode: z.string().optional()
+});
+
+function formatUptime(seconds: number): string {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const parts = [days > 0 ? `${days}d` : '', hours > 0 ? `${hours}h` : '', `${minutes}m`, `${Math.floor(seconds % 60)}s`];
+  return parts.filter(Boolean).join(' ');
+}
 
 export const serverInfoTools: ToolConfig[] = [
   {
     name: "get_server_info",
-    description: "Get information about the YouTube Analytics MCP server",
+    description: "Get server version, uptime, enabled tools and prompts, auth state, cache statistics and API usage",
     category: "server",
     schema: z.object({
       format: z.enum(["json", "text"]).optional().describe("Output format (json or text)")
     }),
-    handler: async ({ format = "text" }) => {
+    outputSchema: z.object({
+      name: z.string(),
+      version: z.string(),
+      nodeVersion: z.string(),
+      status: z.string(),
+      startedAt: z.string(),
+      uptimeSeconds: z.number(),
+      capabilities: z.array(z.string()),
+      description: z.string(),
+      toolFilter: z.object({
+        profile: z.string(),
+        allowTools: z.array(z.string()),
+        allowCategories: z.array(z.string()),
+        denyTools: z.array(z.string()),
+        denyCategories: z.array(z.string()),
+        configPath: z.string().optional()
+      }),
+      enabledTools: z.record(z.array(z.string())),
+      scopeHiddenTools: z.array(z.string()),
+      prompts: z.array(z.string()),
+      auth: z.object({
+        authenticated: z.boolean(),
+        activeAccount: z.object({ channelId: z.string(), title: z.string() }).optional(),
+        accountCount: z.number(),
+        tokenStore: z.string()
+      }),
+      caches: z.record(cacheStatsSchema),
+      apiUsage: z.object({
+        calls: z.number(),
+        errors: z.number(),
+        retries: z.number(),
+        coalesced: z.number(),
+        since: z.string()
+      })
+    }),
+    handler: async ({ format = "text" }, { authManager, getRegisteredTools, getScopeHiddenTools, getToolFilter, getCacheStats }: ToolContext) => {
+      // Enabled tool names grouped by category; scope-gated tools the account cannot use are listed apart
+      const scopeHiddenTools = getScopeHiddenTools();
+      const enabledTools: Record<string, string[]> = {};
+      getRegisteredTools().filter(tool => !scopeHiddenTools.includes(tool.name)).forEach(tool => {
+        const category = tool.category ?? 'other';
+        (enabledTools[category] ??= []).push(tool.name);
+      });
+
+      // Only stored state is inspected; this never starts a login
+      const accounts: Array<{ channelId: string; title: string; active: boolean }> = await authManager.listAccounts();
+      const activeAccount = accounts.find(account => account.active);
+      const auth = {
+        authenticated: await authManager.isAuthenticated(),
+        activeAccount: activeAccount ? { channelId: activeAccount.channelId, title: activeAccount.title } : undefined,
+        accountCount: accounts.length,
+        tokenStore: authManager.getTokenStoreKind()
+      };
+
+      const uptimeSeconds = Math.floor(process.uptime());
       const info = {
-        name: "YouTube Analytics MCP Server",
-        version: "1.0.0",
+        name: PACKAGE_NAME,
+        version: PACKAGE_VERSION,
+        nodeVersion: process.version,
         status: "running",
-        capabilities: ["tools", "resources", "prompts"],
-        description: "MCP server for YouTube Analytics data access with demographics and discovery tools"
+        startedAt: new Date(Date.now() - uptimeSeconds * 1000).toISOString(),
+        uptimeSeconds,
+        capabilities: ["tools", "resources", "prompts", "completions", "logging"],
+        description: "MCP server for YouTube Analytics data access with demographics and discovery tools",
+        toolFilter: getToolFilter(),
+        enabledTools,
+        scopeHiddenTools,
+        prompts: allPrompts.map(prompt => prompt.name),
+        auth,
+        caches: getCacheStats(),
+        apiUsage: getApiUsageStats()
       };
 
       if (format === "json") {
@@ -25,21 +108,59 @@ export const serverInfoTools: ToolConfig[] = [
               type: "text",
               text: JSON.stringify(info, null, 2)
             }
-          ]
+          ],
+          structuredContent: info
         };
       }
 
+      const filter = info.toolFilter;
+      const describeList = (values: string[]) => values.length > 0 ? values.join(", ") : "none";
+      const describeCache = ([name, stats]: [string, z.infer<typeof cacheStatsSchema>]) =>
+        `• ${name}${stats.mode ? ` (${stats.mode})` : ""}: ${stats.entries} entries` +
+        (stats.hits !== undefined ? `, ${stats.hits} hits, ${stats.misses ?? 0} misses` : "") +
+        (stats.staleHits !== undefined ? `, ${stats.staleHits} stale hits` : "");
+
       return {
         content: [
           {
             type: "text",
             text: `Server: ${info.name}
 Version: ${info.version}
+Node.js: ${info.nodeVersion}
 Status: ${info.status}
+Uptime: ${formatUptime(info.uptimeSeconds)} (since ${info.startedAt})
 Capabilities: ${info.capabilities.join(", ")}
-Description: ${info.description}`
+Description: ${info.description}
+
+Authentication:
+• Authenticated: ${auth.authenticated ? "yes" : "no"}
+• Active account: ${auth.activeAccount ? `${auth.activeAccount.title} (${auth.activeAccount.channelId})` : "none"}
+• Stored accounts: ${auth.accountCount}
+• Token store: ${auth.tokenStore}
+
+Tool profile: ${filter.profile}${filter.configPath ? ` (config: ${filter.configPath})` : ""}
+Allowed tools: ${describeList(filter.allowTools)}
+Allowed categories: ${describeList(filter.allowCategories)}
+Denied tools: ${describeList(filter.denyTools)}
+Denied categories: ${describeList(filter.denyCategories)}
+
+Enabled tools:
+${Object.entries(enabledTools).map(([category, names]) => `• ${category}: ${names.join(", ")}`).join("\n")}
+Hidden until their scopes are granted: ${describeList(scopeHiddenTools)}
+
+Prompts: ${describeList(info.prompts)}
+
+Caches:
+${Object.entries(info.caches).map(describeCache).join("\n")}
+
+API usage since ${info.apiUsage.since}:
+• Requests: ${info.apiUsage.calls}
+• Errors: ${info.apiUsage.errors}
+• Retries: ${info.apiUsage.retries}
+• Shared with identical in-flight requests: ${info.apiUsage.coalesced}`
           }
-        ]
+        ],
+        structuredContent: info
       };
     },
   },
@@ -0,0 +1,13 @@
+import { readFileSync } from 'fs';
+
+interface PackageJson {
+  name: string;
+  version: string;
+  description?: string;
+}
+
+// src/server and build/server are both two levels below package.json
+const packageJson: PackageJson = JSON.parse(readFileSync(new URL('../../package.json', import.meta.url), 'utf8'));
+
+export const PACKAGE_NAME = packageJson.name;
+export const PACKAGE_VERSION = packageJson.version;
@@ -0,0 +1,83 @@
+import { z } from "zod";
+import { ToolConfig, ToolContext } from '../types.js';
+
+const usageCounterSchema = z.object({
+  calls: z.number(),
+  units: z.number()
+});
+
+const perApiSchema = z.object({
+  data: z.number(),
+  analytics: z.number()
+});
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function describeCounters(counters: Record<string, { calls: number; units: number }>): string {
+  const entries = Object.entries(counters).sort(([, a], [, b]) => b.units - a.units);
+  if (entries.length === 0) {
+    return '• none';
+  }
+  return entries.map(([name, { calls, units }]) => `• ${name}: ${plural(units, 'unit')} (${plural(calls, 'request')})`).join('\n');
+}
+
+export const quotaTools: ToolConfig[] = [
+  {
+    name: "get_quota_usage",
+    description: "Show today's YouTube API quota usage (Pacific time day) by API, endpoint and tool, with the remaining budget",
+    category: "server",
+    schema: z.object({
+      format: z.enum(["json", "text"]).optional().describe("Output format (json or text)")
+    }),
+    outputSchema: z.object({
+      date: z.string(),
+      resetsAt: z.string(),
+      used: perApiSchema,
+      budgets: perApiSchema,
+      remaining: z.object({
+        data: z.number().nullable(),
+        analytics: z.number().nullable()
+      }),
+      byEndpoint: z.record(usageCounterSchema),
+      byTool: z.record(usageCounterSchema)
+    }),
+    handler: async ({ format = "text" }, { getQuotaUsage }: ToolContext) => {
+      const usage = getQuotaUsage();
+
+      if (format === "json") {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify(usage, null, 2)
+          }],
+          structuredContent: usage
+        };
+      }
+
+      const describeApi = (label: string, api: 'data' | 'analytics') => usage.budgets[api] > 0
+        ? `• ${label}: ${usage.used[api]} of ${usage.budgets[api]} units used, ${usage.remaining[api]} remaining`
+        : `• ${label}: ${plural(usage.used[api], 'unit')} used (no budget set)`;
+
+      return {
+        content: [{
+          type: "text",
+          text: `Quota usage for ${usage.date} (Pacific time), resets at ${usage.resetsAt}
+
+${describeApi("Data API", "data")}
+${describeApi("Analytics API", "analytics")}
+
+By endpoint:
+${describeCounters(usage.byEndpoint)}
+
+By tool:
+${describeCounters(usage.byTool)}
+
+Cached responses cost no quota.`
+        }],
+        structuredContent: usage
+      };
+    },
+  },
+];
@@ -0,0 +1,136 @@
+import { existsSync, readFileSync } from 'fs';
+import path from 'path';
+import { getCliFlag, resolveAuthPaths } from '../auth/paths.js';
+import { ToolConfig } from '../types.js';
+
+export const TOOL_FILTER_ENV_VARS = {
+  config: 'YOUTUBE_MCP_TOOLS_CONFIG',
+  profile: 'YOUTUBE_MCP_TOOL_PROFILE',
+  allowTools: 'YOUTUBE_MCP_ALLOW_TOOLS',
+  denyTools: 'YOUTUBE_MCP_DENY_TOOLS',
+  allowCategories: 'YOUTUBE_MCP_ALLOW_CATEGORIES',
+  denyCategories: 'YOUTUBE_MCP_DENY_CATEGORIES'
+} as const;
+
+export const TOOL_FILTER_CLI_FLAGS = {
+  config: '--tools-config',
+  profile: '--profile'
+} as const;
+
+export const TOOLS_CONFIG_FILE = 'tools.json';
+
+export const TOOL_PROFILES = ['full', 'safe'] as const;
+
+export type ToolProfile = typeof TOOL_PROFILES[number];
+
+// Tools each profile always hides; "safe" is read-only, so it drops every tool that signs in,
+// switches or removes accounts, revokes credentials or clears cached data
+const PROFILE_DENIED_TOOLS: Record<ToolProfile, string[]> = {
+  full: [],
+  safe: ['start_auth', 'complete_auth', 'add_account', 'switch_account', 'remove_account', 'revoke_auth', 'clear_cache']
+};
+
+export interface ToolFilter {
+  profile: ToolProfile;
+  // Empty allow lists mean "everything"; when either is set a tool must match one of them
+  allowTools: string[];
+  allowCategories: string[];
+  denyTools: string[];
+  denyCategories: string[];
+  // Config file the settings were read from, if any
+  configPath?: string;
+}
+
+interface ToolsConfigFile {
+  profile?: string;
+  allowTools?: string[];
+  denyTools?: string[];
+  allowCategories?: string[];
+  denyCategories?: string[];
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function readConfigFile(configPath: string): ToolsConfigFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(readFileSync(configPath, 'utf8'));
+  } catch (error) {
+    throw new Error(`Could not read tools config ${configPath}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Tools config ${configPath} must contain a JSON object`);
+  }
+
+  const config = parsed as Record<string, unknown>;
+  (['allowTools', 'denyTools', 'allowCategories', 'denyCategories'] as const).forEach(key => {
+    const value = config[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some(item => typeof item !== 'string'))) {
+      throw new Error(`"${key}" in ${configPath} must be an array of strings`);
+    }
+  });
+  return config as ToolsConfigFile;
+}
+
+/**
+ * Resolves which tools are exposed. Settings are merged per field, highest precedence first:
+ * 1. CLI flag (--profile) and environment variables (YOUTUBE_MCP_TOOL_PROFILE, YOUTUBE_MCP_ALLOW_TOOLS, ...)
+ * 2. The tools config file (--tools-config, YOUTUBE_MCP_TOOLS_CONFIG, or tools.json in the config directory)
+ */
+export function resolveToolFilter(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): ToolFilter {
+  const explicitPath = getCliFlag(argv, TOOL_FILTER_CLI_FLAGS.config) || env[TOOL_FILTER_ENV_VARS.config];
+  const configPath = explicitPath
+    ? path.resolve(explicitPath)
+    : path.join(resolveAuthPaths(argv, env).configDir, TOOLS_CONFIG_FILE);
+
+  // A missing default file is fine; a missing file that was asked for is not
+  const hasConfigFile = explicitPath ? true : existsSync(configPath);
+  const file = hasConfigFile ? readConfigFile(configPath) : {};
+
+  const profile = getCliFlag(argv, TOOL_FILTER_CLI_FLAGS.profile) || env[TOOL_FILTER_ENV_VARS.profile] || file.profile || 'full';
+  if (!(TOOL_PROFILES as readonly string[]).includes(profile)) {
+    throw new Error(`Unknown tool profile "${profile}". Expected one of: ${TOOL_PROFILES.join(', ')}`);
+  }
+
+  return {
+    profile: profile as ToolProfile,
+    allowTools: parseList(env[TOOL_FILTER_ENV_VARS.allowTools]) ?? file.allowTools ?? [],
+    allowCategories: parseList(env[TOOL_FILTER_ENV_VARS.allowCategories]) ?? file.allowCategories ?? [],
+    denyTools: parseList(env[TOOL_FILTER_ENV_VARS.denyTools]) ?? file.denyTools ?? [],
+    denyCategories: parseList(env[TOOL_FILTER_ENV_VARS.denyCategories]) ?? file.denyCategories ?? [],
+    configPath: hasConfigFile ? configPath : undefined
+  };
+}
+
+/**
+ * Deny lists and the profile always win. When allow lists are set, a tool must be
+ * named in allowTools or belong to one of allowCategories.
+ */
+export function isToolEnabled(tool: ToolConfig, filter: ToolFilter): boolean {
+  const category = tool.category ?? '';
+  if (PROFILE_DENIED_TOOLS[filter.profile].includes(tool.name) ||
+      filter.denyTools.includes(tool.name) ||
+      filter.denyCategories.includes(category)) {
+    return false;
+  }
+
+  const hasAllowList = filter.allowTools.length > 0 || filter.allowCategories.length > 0;
+  return !hasAllowList || filter.allowTools.includes(tool.name) || filter.allowCategories.includes(category);
+}
+
+/**
+ * Names in the filter that match no known tool or category, usually typos.
+ */
+export function findUnknownFilterEntries(tools: ToolConfig[], filter: ToolFilter): string[] {
+  const names = new Set(tools.map(tool => tool.name));
+  const categories = new Set(tools.map(tool => tool.category ?? ''));
+  return [
+    ...[...filter.allowTools, ...filter.denyTools].filter(name => !names.has(name)).map(name => `tool "${name}"`),
+    ...[...filter.allowCategories, ...filter.denyCategories].filter(category => !categories.has(category)).map(category => `category "${category}"`)
+  ];
+}
@@ -1,20 +1,26 @@
 import { authTools } from './auth/tool-configs.js';
+import { cacheTools } from './server/cache-configs.js';
 import { serverInfoTools } from './server/info-configs.js';
+import { quotaTools } from './server/quota-configs.js';
 import { audienceTools } from './youtube/tools/audience-configs.js';
 import { channelTools } from './youtube/tools/channel-configs.js';
 import { discoveryTools } from './youtube/tools/discovery-configs.js';
 import { engagementTools } from './youtube/tools/engagement-configs.js';
 import { healthTools } from './youtube/tools/health-configs.js';
 import { performanceTools } from './youtube/tools/performance-configs.js';
+import { revenueTools } from './youtube/tools/revenue-configs.js';
 
 export const allTools = [
   ...authTools,
   ...serverInfoTools,
+  ...cacheTools,
+  ...quotaTools,
   ...channelTools,
   ...healthTools,
   ...audienceTools,
   ...discoveryTools,
   ...performanceTools,
   ...engagementTools,
+  ...revenueTools,
 ];
 
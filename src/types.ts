@@ -1,3 +1,9 @@
+import { ToolFilter } from './server/tool-filter.js';
+import { QuotaUsage } from './youtube/quota-tracker.js';
+import { createLogger } from './utils/logger.js';
+
+const log = createLogger('formatters');
+
 export interface AuthConfig {
   web: {
     client_id: string;
@@ -42,14 +48,41 @@ export interface ToolResult {
     text: string;
     _meta?: Record<string, unknown>;
   }>;
+  structuredContent?: Record<string, unknown>; // Must match the tool's outputSchema
   isError?: boolean;
   _meta?: Record<string, unknown>;
 }
 
+export interface CacheStats {
+  entries: number;
+  hits?: number;
+  misses?: number;
+  // Expired entries served because the API call failed
+  staleHits?: number;
+  mode?: string;
+}
+
 export interface ToolContext {
   authManager: any;
-  getYouTubeClient: () => Promise<any>;
-  clearYouTubeClientCache: () => void;
+  getYouTubeClient: (account?: string) => Promise<any>;
+  clearYouTubeClientCache: (account?: string) => void;
+  // Tools exposed by this server after the tool filter has been applied
+  getRegisteredTools: () => ToolConfig[];
+  // Registered tools that are disabled until the active account grants their scopes
+  getScopeHiddenTools: () => string[];
+  getToolFilter: () => ToolFilter;
+  // Statistics of the in-process caches, keyed by cache name
+  getCacheStats: () => Record<string, CacheStats>;
+  // Drops cached API responses (one account, or all when omitted); returns the number removed
+  clearResponseCache: (account?: string) => Promise<number>;
+  // Today's quota usage (Pacific time) by API, endpoint and tool
+  getQuotaUsage: () => QuotaUsage;
+  // Aborted when the client cancels the call; YouTube clients from getYouTubeClient already honour it
+  signal?: AbortSignal;
+  // Progress token sent by the client, if it asked for progress notifications
+  progressToken?: string | number;
+  // Sends a notifications/progress message; a no-op without a progress token
+  reportProgress: (progress: number, total?: number, message?: string) => Promise<void>;
 }
 
 // Formatter function types for separating business logic from API calls
@@ -65,7 +98,7 @@ export function safeFormatter(formatterName: string, formatter: FormatterFunctio
     try {
       return formatter(data);
     } catch (error) {
-      console.error(`Error in formatter ${formatterName}:`, error);
+      log.error(`Error in formatter ${formatterName}`, error);
       return `Error formatting data for ${formatterName}: ${error instanceof Error ? error.message : String(error)}`;
     }
   };
@@ -75,7 +108,9 @@ export interface ToolConfig<T = any> {
   name: string;
   description: string;
   schema: any; // Zod schema
+  outputSchema?: any; // Zod schema for structuredContent
   handler: (params: T, context: ToolContext) => Promise<ToolResult>;
   category?: string; // Optional grouping
+  requiredScopes?: string[]; // Opt-in OAuth scopes; the tool is only exposed once they are granted
   formatters?: Formatters; // Optional formatter functions for data presentation
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { DemographicData, GeographicData, SubscriberData } from '../parsers/analytics.js';
 import { formatNumber, formatPercentage } from '../transformers/statistics.js';
+import { TableData } from './renderers.js';
 
 export interface AgeGenderBreakdown {
   [ageGroup: string]: {
@@ -152,4 +153,28 @@ export function generateAudienceInsights(geographicData: GeographicData[], subsc
   }
   
   return insights;
+}
+
+export function demographicsTable(demographicData: DemographicData[]): TableData {
+  return {
+    title: 'Demographics',
+    columns: ['Age Group', 'Gender', 'Viewer %'],
+    rows: demographicData.map(item => [item.ageGroup, item.gender, item.viewerPercentage])
+  };
+}
+
+export function geographicTable(geographicData: GeographicData[]): TableData {
+  return {
+    title: 'Geographic Distribution',
+    columns: ['Country', 'Views', 'Watch Time (min)', 'Avg View Duration (s)'],
+    rows: geographicData.map(item => [item.country, item.views, item.estimatedMinutesWatched, item.averageViewDuration])
+  };
+}
+
+export function subscriberTable(subscriberData: SubscriberData[]): TableData {
+  return {
+    title: 'Subscriber Status',
+    columns: ['Status', 'Views', 'Watch Time (min)', 'Avg View Duration (s)'],
+    rows: subscriberData.map(item => [item.subscribedStatus, item.views, item.estimatedMinutesWatched, item.averageViewDuration])
+  };
 }
\ No newline at end of file
@@ -0,0 +1,60 @@
+import { AuthDiagnostics } from '../../auth/types.js';
+
+export interface UnusableTool {
+  name: string;
+  missingScopes: string[];
+}
+
+function shortScope(scope: string): string {
+  return scope.replace('https://www.googleapis.com/auth/', '');
+}
+
+export function formatAuthDiagnostics(diagnostics: AuthDiagnostics, unusableTools: UnusableTool[]): string {
+  let output = `Authentication Status: ${diagnostics.authenticated ? 'Authenticated' : 'Not Authenticated'}\n\n`;
+
+  output += "🔐 Token Details:\n";
+  if (diagnostics.account) {
+    output += `• Account: ${diagnostics.account.title} (${diagnostics.account.channelId})\n`;
+  }
+  output += `• Refresh Token: ${diagnostics.hasRefreshToken ? 'Present' : 'Missing'}\n`;
+
+  if (diagnostics.accessTokenExpiry) {
+    const expiresIn = Math.round((diagnostics.accessTokenExpiry - Date.now()) / 60000);
+    const relative = expiresIn >= 0 ? `in ${expiresIn} minutes` : `${Math.abs(expiresIn)} minutes ago`;
+    output += `• Access Token Expiry: ${new Date(diagnostics.accessTokenExpiry).toISOString()} (${relative})\n`;
+  } else {
+    output += "• Access Token Expiry: Unknown\n";
+  }
+
+  if (diagnostics.channel) {
+    output += `\n📺 Authenticated Channel: ${diagnostics.channel.title} (${diagnostics.channel.id})\n`;
+  }
+
+  if (diagnostics.grantedScopes.length > 0) {
+    output += "\n✅ Granted Scopes:\n";
+    diagnostics.grantedScopes.forEach(scope => {
+      output += `• ${shortScope(scope)}\n`;
+    });
+  }
+
+  if (diagnostics.authenticated) {
+    if (unusableTools.length > 0) {
+      output += "\n⚠️ Tools Unavailable (missing scopes):\n";
+      unusableTools.forEach(tool => {
+        output += `• ${tool.name} - needs ${tool.missingScopes.map(shortScope).join(', ')}\n`;
+      });
+      output += "💡 Re-authenticate with add_account or start_auth to grant the missing scopes.\n";
+    } else {
+      output += "\n✅ All tools are usable with the granted scopes.\n";
+    }
+  }
+
+  if (diagnostics.errors.length > 0) {
+    output += "\n🚨 Problems:\n";
+    diagnostics.errors.forEach(error => {
+      output += `• ${error}\n`;
+    });
+  }
+
+  return output.trimEnd();
+}
@@ -1,4 +1,7 @@
 import { formatNumber } from '../transformers/statistics.js';
+import { formatDuration } from '../transformers/duration.js';
+import { OwnedChannel, UploadedVideo, VideoDetailsBatch } from '../../youtube/types.js';
+import { TableData, keyValueTable } from './renderers.js';
 
 export interface ChannelInfo {
   id: string;
@@ -19,11 +22,14 @@ export interface ChannelInfo {
 }
 
 export interface VideoListData {
-  videos: any[];
+  videos: UploadedVideo[];
+  totalResults?: number;
+  nextCursor?: string;
   filterOptions?: {
     query?: string;
     startDate?: string;
     endDate?: string;
+    privacyStatus?: string;
   };
 }
 
@@ -73,26 +79,38 @@ export function formatVideoList(data: VideoListData): string {
   let output = "📹 Channel Videos:\n\n";
   
   // Add filter information if provided
-  if (filterOptions && (filterOptions.query || filterOptions.startDate || filterOptions.endDate)) {
+  const privacyFilter = filterOptions?.privacyStatus && filterOptions.privacyStatus !== 'all' ? filterOptions.privacyStatus : undefined;
+  if (filterOptions && (filterOptions.query || filterOptions.startDate || filterOptions.endDate || privacyFilter)) {
     output += "🔍 Filters Applied:\n";
-    if (filterOptions.query) output += `  • Search Query: "${filterOptions.query}"\n`;
+    if (filterOptions.query) output += `  • Title Contains: "${filterOptions.query}"\n`;
     if (filterOptions.startDate) output += `  • Start Date: ${filterOptions.startDate}\n`;
     if (filterOptions.endDate) output += `  • End Date: ${filterOptions.endDate}\n`;
+    if (privacyFilter) output += `  • Privacy: ${privacyFilter}\n`;
     output += "\n";
   }
   
-  output += `Found ${videos.length} videos:\n\n`;
+  const total = data.totalResults ?? videos.length;
+  output += total > videos.length
+    ? `Showing ${videos.length} of ${total} videos:\n\n`
+    : `Found ${videos.length} videos:\n\n`;
   
-  videos.forEach((video: any, index: number) => {
-    output += `${index + 1}. 📺 ${video.snippet?.title || 'Untitled'}\n`;
-    output += `   🆔 Video ID: ${video.id?.videoId || video.videoId || 'N/A'}\n`;
+  videos.forEach((video, index) => {
+    output += `${index + 1}. 📺 ${video.title || 'Untitled'}\n`;
+    output += `   🆔 Video ID: ${video.videoId}\n`;
     
-    if (video.snippet?.publishedAt) {
-      output += `   📅 Published: ${new Date(video.snippet.publishedAt).toLocaleDateString()}\n`;
+    if (video.publishedAt) {
+      output += `   📅 Published: ${new Date(video.publishedAt).toLocaleDateString()}\n`;
+    }
+
+    const privacy = video.publishAt ? `scheduled for ${new Date(video.publishAt).toLocaleString()}` : video.privacyStatus;
+    output += `   🔒 Privacy: ${privacy}\n`;
+
+    if (video.viewCount !== undefined) {
+      output += `   👁️ Views: ${formatNumber(Number(video.viewCount))}\n`;
     }
     
-    if (video.snippet?.description) {
-      const desc = video.snippet.description.trim();
+    if (video.description) {
+      const desc = video.description.trim();
       if (desc) {
         output += `   📝 Description: ${desc.slice(0, 100)}${desc.length > 100 ? '...' : ''}\n`;
       }
@@ -101,11 +119,80 @@ export function formatVideoList(data: VideoListData): string {
     output += "\n";
   });
 
+  if (data.nextCursor) {
+    output += `➡️ More videos available. Pass cursor "${data.nextCursor}" to get the next page.\n\n`;
+  }
+
   output += "💡 Use the video IDs above with other tools like get_video_demographics for detailed analysis.";
   
   return output;
 }
 
+export function formatVideoDetails(data: VideoDetailsBatch): string {
+  const { videos, notFound } = data;
+  if (videos.length === 0) {
+    return `No videos found for the requested IDs: ${notFound.join(', ')}`;
+  }
+
+  let output = `🎬 Video Details (${videos.length} video${videos.length === 1 ? '' : 's'}):\n\n`;
+
+  videos.forEach((video, index) => {
+    const { snippet, statistics, contentDetails } = video;
+    output += `${index + 1}. 📺 ${snippet.title || 'Untitled'}\n`;
+    output += `   🆔 Video ID: ${video.id}\n`;
+    if (snippet.publishedAt) {
+      output += `   📅 Published: ${new Date(snippet.publishedAt).toLocaleDateString()}\n`;
+    }
+    if (contentDetails.durationSeconds !== undefined) {
+      output += `   ⏱️ Duration: ${formatDuration(contentDetails.durationSeconds)}\n`;
+    }
+    output += `   🗂️ Category ID: ${snippet.categoryId || 'N/A'}\n`;
+    output += `   🎞️ Definition: ${(contentDetails.definition || 'N/A').toUpperCase()}, captions: ${contentDetails.caption === 'true' ? 'yes' : 'no'}\n`;
+    output += `   👁️ Views: ${formatNumber(Number(statistics.viewCount || 0))} | 👍 Likes: ${formatNumber(Number(statistics.likeCount || 0))} | 💬 Comments: ${formatNumber(Number(statistics.commentCount || 0))}\n`;
+    if (snippet.tags && snippet.tags.length > 0) {
+      output += `   🏷️ Tags: ${snippet.tags.slice(0, 10).join(', ')}${snippet.tags.length > 10 ? ` (+${snippet.tags.length - 10} more)` : ''}\n`;
+    }
+    const restriction = contentDetails.regionRestriction;
+    if (restriction?.blocked?.length) {
+      output += `   🚫 Blocked in: ${restriction.blocked.join(', ')}\n`;
+    }
+    if (restriction?.allowed?.length) {
+      output += `   ✅ Only allowed in: ${restriction.allowed.join(', ')}\n`;
+    }
+    output += "\n";
+  });
+
+  if (notFound.length > 0) {
+    output += `⚠️ Not found (deleted, private or invalid): ${notFound.join(', ')}\n`;
+  }
+
+  return output.trimEnd();
+}
+
+export function formatOwnedChannels(channels: OwnedChannel[], contentOwner?: string): string {
+  if (!channels || channels.length === 0) {
+    return "No channels found for this content owner.";
+  }
+
+  let output = `🏢 Content Owner Channels${contentOwner ? ` (${contentOwner})` : ''}:\n\n`;
+  output += `Found ${channels.length} channels:\n\n`;
+
+  channels.forEach((channel, index) => {
+    output += `${index + 1}. 📺 ${channel.title}\n`;
+    output += `   🆔 Channel ID: ${channel.id}\n`;
+    if (channel.customUrl) {
+      output += `   🔗 Custom URL: ${channel.customUrl}\n`;
+    }
+    output += `   👥 Subscribers: ${formatNumber(parseInt(channel.subscriberCount || '0'))}\n`;
+    output += `   👁️ Views: ${formatNumber(parseInt(channel.viewCount || '0'))}\n`;
+    output += `   📹 Videos: ${formatNumber(parseInt(channel.videoCount || '0'))}\n\n`;
+  });
+
+  output += "💡 Pass a channel ID as the channel parameter of health, audience and discovery tools to report on that channel.";
+
+  return output;
+}
+
 export function generateChannelInsights(channelInfo: ChannelInfo): string[] {
   const insights: string[] = [];
   
@@ -159,4 +246,66 @@ export function generateChannelInsights(channelInfo: ChannelInfo): string[] {
   }
   
   return insights;
+}
+
+export function channelInfoTable(channelInfo: ChannelInfo): TableData {
+  return keyValueTable([
+    ['Name', channelInfo.snippet?.title],
+    ['Channel ID', channelInfo.id],
+    ['Custom URL', channelInfo.snippet?.customUrl],
+    ['Subscribers', Number(channelInfo.statistics?.subscriberCount || 0)],
+    ['Total Views', Number(channelInfo.statistics?.viewCount || 0)],
+    ['Video Count', Number(channelInfo.statistics?.videoCount || 0)],
+    ['Published', channelInfo.snippet?.publishedAt],
+    ['Country', channelInfo.snippet?.country]
+  ], 'Channel Information');
+}
+
+export function videoListTable(data: VideoListData): TableData {
+  return {
+    title: 'Videos',
+    columns: ['Video ID', 'Title', 'Published', 'Privacy', 'Views'],
+    rows: data.videos.map(video => [
+      video.videoId,
+      video.title,
+      video.publishedAt,
+      video.privacyStatus,
+      video.viewCount !== undefined ? Number(video.viewCount) : undefined
+    ])
+  };
+}
+
+export function videoDetailsTable(data: VideoDetailsBatch): TableData {
+  return {
+    title: 'Video Details',
+    columns: ['Video ID', 'Title', 'Published', 'Duration (s)', 'Category', 'Definition', 'Captions', 'Views', 'Likes', 'Comments', 'Tags'],
+    rows: data.videos.map(video => [
+      video.id,
+      video.snippet.title,
+      video.snippet.publishedAt,
+      video.contentDetails.durationSeconds,
+      video.snippet.categoryId,
+      video.contentDetails.definition,
+      video.contentDetails.caption === 'true',
+      Number(video.statistics.viewCount || 0),
+      Number(video.statistics.likeCount || 0),
+      Number(video.statistics.commentCount || 0),
+      video.snippet.tags?.join('; ')
+    ])
+  };
+}
+
+export function ownedChannelsTable(channels: OwnedChannel[]): TableData {
+  return {
+    title: 'Owned Channels',
+    columns: ['Channel ID', 'Title', 'Custom URL', 'Subscribers', 'Views', 'Videos'],
+    rows: channels.map(channel => [
+      channel.id,
+      channel.title,
+      channel.customUrl,
+      Number(channel.subscriberCount || 0),
+      Number(channel.viewCount || 0),
+      Number(channel.videoCount || 0)
+    ])
+  };
 }
\ No newline at end of file
@@ -1,6 +1,7 @@
 import { ParsedAnalytics } from '../transformers/analytics.js';
 import { formatNumber } from '../transformers/statistics.js';
 import { TrafficSourceData, SearchTermData } from '../parsers/analytics.js';
+import { TableData } from './renderers.js';
 
 export interface DayOfWeekData {
   dayOfWeek: string;
@@ -227,4 +228,42 @@ export function generateDiscoveryInsights(trafficData: TrafficSourceData[], sear
   }
   
   return insights;
+}
+
+export function optimalPostingTables(analysis: OptimalPostingAnalysis): TableData[] {
+  return [
+    {
+      title: 'Day of Week Performance',
+      columns: ['Day', 'Avg Views', 'Avg Watch Time (min)', 'Avg Subscribers', 'Days'],
+      rows: analysis.dayOfWeekAnalysis.map(day => [day.dayOfWeek, day.avgViews, day.avgWatchTime, day.avgSubscribers, day.totalDays])
+    },
+    {
+      title: 'Best Performing Days',
+      columns: ['Date', 'Views', 'Watch Time (min)', 'Subscribers', 'Score'],
+      rows: analysis.bestPerformingDays.map(day => [day.date, day.views, day.watchTime, day.subscribers, day.score])
+    }
+  ];
+}
+
+export function trafficSourcesTable(trafficData: TrafficSourceData[]): TableData {
+  const totalViews = trafficData.reduce((sum, source) => sum + source.views, 0);
+  return {
+    title: 'Traffic Sources',
+    columns: ['Source', 'Views', 'Share %', 'Watch Time (min)'],
+    rows: trafficData.map(source => [
+      source.sourceType,
+      source.views,
+      totalViews > 0 ? (source.views / totalViews) * 100 : 0,
+      source.estimatedMinutesWatched
+    ])
+  };
+}
+
+export function searchTermsTable(searchData: SearchTermData[]): TableData {
+  const totalViews = searchData.reduce((sum, term) => sum + term.views, 0);
+  return {
+    title: 'Search Terms',
+    columns: ['Search Term', 'Views', 'Share %'],
+    rows: searchData.map(term => [term.searchTerm, term.views, totalViews > 0 ? (term.views / totalViews) * 100 : 0])
+  };
 }
\ No newline at end of file
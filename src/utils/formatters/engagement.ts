@@ -1,6 +1,7 @@
 import { MetricTotals } from '../transformers/analytics.js';
 import { EngagementRates, calculateEngagementRates, formatNumber, formatPercentage } from '../transformers/statistics.js';
 import { DateRange } from '../parsers/analytics.js';
+import { TableData, keyValueTable } from './renderers.js';
 
 export interface EngagementInsight {
   message: string;
@@ -150,4 +151,19 @@ export function formatEngagementMetrics(analysis: EngagementAnalysis, dateInfo?:
   output += "• Grow subscribers: Consistent uploads, clear value proposition, CTAs\n";
 
   return output;
+}
+
+export function engagementTable(analysis: EngagementAnalysis): TableData {
+  return keyValueTable([
+    ['Views', analysis.totalViews],
+    ['Likes', analysis.totalLikes],
+    ['Comments', analysis.totalComments],
+    ['Shares', analysis.totalShares],
+    ['Like Rate %', analysis.rates.likeRate],
+    ['Comment Rate %', analysis.rates.commentRate],
+    ['Share Rate %', analysis.rates.shareRate],
+    ['Subscribers Gained', analysis.subscribersGained],
+    ['Subscribers Lost', analysis.subscribersLost],
+    ['Net Subscriber Change', analysis.netSubscriberChange]
+  ], 'Engagement Metrics');
 }
\ No newline at end of file
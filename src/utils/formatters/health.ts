@@ -1,6 +1,7 @@
 import { ParsedAnalytics, ColumnHeader, calculatePercentageChange } from '../transformers/analytics.js';
 import { formatNumber, formatPercentage } from '../transformers/statistics.js';
 import { parseComparisonMetrics } from '../parsers/analytics.js';
+import { TableData, keyValueTable } from './renderers.js';
 
 export interface ChannelOverviewData {
   totalViews: number;
@@ -189,4 +190,28 @@ export function generateHealthInsights(overviewData: ChannelOverviewData): strin
   }
   
   return insights;
+}
+
+export function channelOverviewTable(data: ChannelOverviewData): TableData {
+  return keyValueTable([
+    ['Total Views', data.totalViews],
+    ['Watch Time (min)', data.estimatedMinutesWatched],
+    ['Subscribers Gained', data.subscribersGained],
+    ['Avg View Duration (s)', data.averageViewDuration],
+    ['Avg View Percentage', data.averageViewPercentage]
+  ], 'Channel Overview');
+}
+
+export function comparisonTable(comparisonData: ComparisonData): TableData {
+  return {
+    title: 'Period Comparison',
+    columns: ['Metric', 'Period 1', 'Period 2', 'Change', 'Change %'],
+    rows: Object.entries(comparisonData.changes).map(([metric, data]) => [
+      metric,
+      data.newValue,
+      data.oldValue,
+      data.change,
+      data.percentChange
+    ])
+  };
 }
\ No newline at end of file
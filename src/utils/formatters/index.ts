@@ -3,4 +3,7 @@ export * from './engagement.js';
 export * from './health.js';
 export * from './performance.js';
 export * from './channel.js';
-export * from './discovery.js';
\ No newline at end of file
+export * from './discovery.js';
+export * from './auth.js';
+export * from './revenue.js';
+export * from './renderers.js';
\ No newline at end of file
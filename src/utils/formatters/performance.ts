@@ -1,5 +1,6 @@
 import { RetentionPoint, RetentionMetrics, calculateRetentionMetrics, parseRetentionData, formatPercentage } from '../transformers/statistics.js';
 import { ParsedAnalytics } from '../transformers/analytics.js';
+import { TableData, keyValueTable } from './renderers.js';
 
 export interface DropOffPoint {
   timePercent: number;
@@ -230,4 +231,29 @@ export function generatePerformanceInsights(analysis: RetentionAnalysis): string
   }
   
   return insights;
+}
+
+export function retentionTables(analysis: RetentionAnalysis): TableData[] {
+  return [
+    keyValueTable([
+      ['Average Retention %', analysis.metrics.averageRetention],
+      ['Start Retention %', analysis.metrics.startRetention],
+      ['End Retention %', analysis.metrics.endRetention],
+      ['Total Drop %', analysis.metrics.totalDrop],
+      ['Performance Rating', analysis.performanceRating]
+    ], 'Retention Summary'),
+    {
+      title: 'Retention Curve',
+      columns: ['Video Position %', 'Retention %'],
+      rows: analysis.retentionData.map(point => [point.timePercent, point.retentionPercent])
+    }
+  ];
+}
+
+export function dropOffTable(dropOffPoints: DropOffPoint[]): TableData {
+  return {
+    title: 'Drop-off Points',
+    columns: ['Video Position %', 'Drop %', 'Severity'],
+    rows: dropOffPoints.map(point => [point.timePercent, point.dropAmount, point.severity])
+  };
 }
\ No newline at end of file
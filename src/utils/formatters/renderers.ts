@@ -0,0 +1,96 @@
+export const OUTPUT_FORMATS = ['text', 'markdown-table', 'csv', 'json'] as const;
+
+export type OutputFormat = typeof OUTPUT_FORMATS[number];
+
+export type TableCell = string | number | boolean | null | undefined;
+
+export interface TableData {
+  title?: string;
+  columns: string[];
+  rows: TableCell[][];
+}
+
+export interface RenderSource {
+  // Human-readable rendering built by the domain formatter
+  text: () => string;
+  // Tabular view of the same parsed data, used for markdown-table and csv
+  tables: () => TableData[];
+  // Serialized as-is for json; tools pass their structuredContent
+  data: unknown;
+}
+
+/**
+ * Builds a two-column Metric/Value table from label/value pairs.
+ */
+export function keyValueTable(entries: Array<[string, TableCell]>, title?: string): TableData {
+  return {
+    title,
+    columns: ['Metric', 'Value'],
+    rows: entries.map(([label, value]) => [label, value])
+  };
+}
+
+function cellToString(cell: TableCell): string {
+  if (cell === null || cell === undefined) {
+    return '';
+  }
+  if (typeof cell === 'number') {
+    // Keep up to two decimals without trailing zeros so values stay exact enough for spreadsheets
+    return Number.isInteger(cell) ? String(cell) : String(Math.round(cell * 100) / 100);
+  }
+  return String(cell);
+}
+
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function renderMarkdownTable(table: TableData): string {
+  const lines: string[] = [];
+  if (table.title) {
+    lines.push(`### ${table.title}`, '');
+  }
+  lines.push(`| ${table.columns.map(column => escapeMarkdownCell(column)).join(' | ')} |`);
+  lines.push(`| ${table.columns.map(() => '---').join(' | ')} |`);
+  table.rows.forEach(row => {
+    lines.push(`| ${table.columns.map((_, index) => escapeMarkdownCell(cellToString(row[index]))).join(' | ')} |`);
+  });
+  if (table.rows.length === 0) {
+    lines.push('', '_No data available._');
+  }
+  return lines.join('\n');
+}
+
+export function renderCsv(table: TableData): string {
+  const lines = [table.columns.map(escapeCsvCell).join(',')];
+  table.rows.forEach(row => {
+    lines.push(table.columns.map((_, index) => escapeCsvCell(cellToString(row[index]))).join(','));
+  });
+  return lines.join('\n');
+}
+
+/**
+ * Renders a tool result in the requested output format. Multiple CSV tables are
+ * separated by a blank line and preceded by their title.
+ */
+export function renderOutput(format: OutputFormat = 'text', source: RenderSource): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(source.data, null, 2);
+    case 'markdown-table':
+      return source.tables().map(renderMarkdownTable).join('\n\n');
+    case 'csv': {
+      const tables = source.tables();
+      return tables
+        .map(table => tables.length > 1 && table.title ? `${escapeCsvCell(table.title)}\n${renderCsv(table)}` : renderCsv(table))
+        .join('\n\n');
+    }
+    case 'text':
+    default:
+      return source.text();
+  }
+}
@@ -0,0 +1,203 @@
+import { RevenueRow } from '../parsers/analytics.js';
+import { calculatePercentageChange } from '../transformers/analytics.js';
+import { formatNumber, formatPercentage } from '../transformers/statistics.js';
+import { TableData, keyValueTable } from './renderers.js';
+
+export interface RevenueTotals {
+  views: number;
+  estimatedRevenue: number;
+  estimatedAdRevenue: number;
+  estimatedRedPartnerRevenue: number;
+  grossRevenue: number;
+  monetizedPlaybacks: number;
+}
+
+export interface DailyRevenuePoint {
+  date: string;
+  estimatedRevenue: number;
+  rpm: number;
+  cpm: number;
+  playbackBasedCpm: number;
+}
+
+export interface RevenueTrendAnalysis {
+  totals: RevenueTotals;
+  rpm: number;
+  averageCpm: number;
+  averagePlaybackBasedCpm: number;
+  // Second half vs first half of the period; omitted when either half has no data
+  rpmChangePercent?: number;
+  cpmChangePercent?: number;
+  bestDay?: DailyRevenuePoint;
+  daily: DailyRevenuePoint[];
+}
+
+function calculateRpm(revenue: number, views: number): number {
+  return views > 0 ? (revenue / views) * 1000 : 0;
+}
+
+function average(values: number[]): number {
+  const nonZero = values.filter(value => value > 0);
+  return nonZero.length > 0 ? nonZero.reduce((sum, value) => sum + value, 0) / nonZero.length : 0;
+}
+
+// Second half vs first half, or undefined when a half has nothing to compare against
+function halfOverHalfChange(firstHalf: number[], secondHalf: number[]): number | undefined {
+  const before = average(firstHalf);
+  const after = average(secondHalf);
+  return before > 0 && after > 0 ? calculatePercentageChange(before, after) : undefined;
+}
+
+export function formatCurrency(amount: number): string {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function analyzeRevenueTrends(rows: RevenueRow[]): RevenueTrendAnalysis {
+  const totals: RevenueTotals = {
+    views: 0,
+    estimatedRevenue: 0,
+    estimatedAdRevenue: 0,
+    estimatedRedPartnerRevenue: 0,
+    grossRevenue: 0,
+    monetizedPlaybacks: 0
+  };
+
+  const daily: DailyRevenuePoint[] = rows.map(row => {
+    const m = row.metrics;
+    totals.views += m.views || 0;
+    totals.estimatedRevenue += m.estimatedRevenue || 0;
+    totals.estimatedAdRevenue += m.estimatedAdRevenue || 0;
+    totals.estimatedRedPartnerRevenue += m.estimatedRedPartnerRevenue || 0;
+    totals.grossRevenue += m.grossRevenue || 0;
+    totals.monetizedPlaybacks += m.monetizedPlaybacks || 0;
+
+    return {
+      date: row.key,
+      estimatedRevenue: m.estimatedRevenue || 0,
+      rpm: calculateRpm(m.estimatedRevenue || 0, m.views || 0),
+      cpm: m.cpm || 0,
+      playbackBasedCpm: m.playbackBasedCpm || 0
+    };
+  });
+
+  // Compare the first and second half of the period to describe the trend; a single day has no trend
+  const midpoint = Math.floor(daily.length / 2);
+  const firstHalf = daily.slice(0, midpoint);
+  const secondHalf = daily.slice(midpoint);
+
+  const bestDay = daily.reduce<DailyRevenuePoint | undefined>(
+    (best, point) => (!best || point.estimatedRevenue > best.estimatedRevenue ? point : best),
+    undefined
+  );
+
+  return {
+    totals,
+    rpm: calculateRpm(totals.estimatedRevenue, totals.views),
+    averageCpm: average(daily.map(point => point.cpm)),
+    averagePlaybackBasedCpm: average(daily.map(point => point.playbackBasedCpm)),
+    rpmChangePercent: halfOverHalfChange(firstHalf.map(p => p.rpm), secondHalf.map(p => p.rpm)),
+    cpmChangePercent: halfOverHalfChange(firstHalf.map(p => p.cpm), secondHalf.map(p => p.cpm)),
+    bestDay,
+    daily
+  };
+}
+
+function formatTrend(changePercent: number | undefined): string {
+  if (changePercent === undefined) {
+    return '';
+  }
+  return ` (${changePercent >= 0 ? '📈 +' : '📉 '}${formatPercentage(changePercent)} second half vs first half)`;
+}
+
+export function formatRevenueTrends(analysis: RevenueTrendAnalysis): string {
+  if (analysis.daily.length === 0) {
+    return "No revenue data available for the specified period. Revenue reports require a monetized channel.";
+  }
+
+  const { totals } = analysis;
+  let output = "💰 Revenue Overview:\n\n";
+
+  output += "📊 Totals:\n";
+  output += `• Estimated Revenue: ${formatCurrency(totals.estimatedRevenue)}\n`;
+  output += `• Ad Revenue: ${formatCurrency(totals.estimatedAdRevenue)}\n`;
+  output += `• YouTube Premium Revenue: ${formatCurrency(totals.estimatedRedPartnerRevenue)}\n`;
+  output += `• Gross Revenue: ${formatCurrency(totals.grossRevenue)}\n`;
+  output += `• Monetized Playbacks: ${formatNumber(totals.monetizedPlaybacks)}\n`;
+  output += `• Views: ${formatNumber(totals.views)}\n\n`;
+
+  output += "📈 RPM / CPM Trends:\n";
+  output += `• RPM (revenue per 1,000 views): ${formatCurrency(analysis.rpm)}${formatTrend(analysis.rpmChangePercent)}\n`;
+  output += `• Average CPM: ${formatCurrency(analysis.averageCpm)}${formatTrend(analysis.cpmChangePercent)}\n`;
+  output += `• Average Playback-Based CPM: ${formatCurrency(analysis.averagePlaybackBasedCpm)}\n`;
+
+  if (analysis.bestDay) {
+    output += `\n🏆 Best Day: ${analysis.bestDay.date} - ${formatCurrency(analysis.bestDay.estimatedRevenue)} (RPM ${formatCurrency(analysis.bestDay.rpm)})\n`;
+  }
+
+  output += "\n💡 RPM reflects what you earn per 1,000 views after YouTube's share; CPM is what advertisers pay per 1,000 ad impressions.";
+
+  return output;
+}
+
+export function formatRevenueBreakdown(rows: RevenueRow[], dimensionLabel: string): string {
+  if (!rows || rows.length === 0) {
+    return `No revenue data by ${dimensionLabel.toLowerCase()} available for the specified period.`;
+  }
+
+  let output = `💰 Revenue by ${dimensionLabel}:\n\n`;
+
+  rows.forEach((row, index) => {
+    const m = row.metrics;
+    const revenue = m.estimatedRevenue ?? m.grossRevenue ?? 0;
+    output += `${index + 1}. ${row.key}: ${formatCurrency(revenue)}\n`;
+
+    if (m.views !== undefined) {
+      output += `   👁️ Views: ${formatNumber(m.views)} | RPM: ${formatCurrency(calculateRpm(m.estimatedRevenue || 0, m.views))}\n`;
+    }
+    if (m.estimatedAdRevenue !== undefined) {
+      output += `   📺 Ad Revenue: ${formatCurrency(m.estimatedAdRevenue)} | Premium: ${formatCurrency(m.estimatedRedPartnerRevenue || 0)}\n`;
+    }
+    if (m.adImpressions !== undefined) {
+      output += `   👀 Ad Impressions: ${formatNumber(m.adImpressions)}\n`;
+    }
+    output += `   💵 CPM: ${formatCurrency(m.cpm || 0)}`;
+    if (m.playbackBasedCpm !== undefined) {
+      output += ` | Playback-Based CPM: ${formatCurrency(m.playbackBasedCpm)}`;
+    }
+    output += "\n";
+  });
+
+  return output;
+}
+
+export function revenueTrendTables(analysis: RevenueTrendAnalysis): TableData[] {
+  return [
+    keyValueTable([
+      ['Estimated Revenue', analysis.totals.estimatedRevenue],
+      ['Ad Revenue', analysis.totals.estimatedAdRevenue],
+      ['YouTube Premium Revenue', analysis.totals.estimatedRedPartnerRevenue],
+      ['Gross Revenue', analysis.totals.grossRevenue],
+      ['Views', analysis.totals.views],
+      ['Monetized Playbacks', analysis.totals.monetizedPlaybacks],
+      ['RPM', analysis.rpm],
+      ['Average CPM', analysis.averageCpm],
+      ['Average Playback-based CPM', analysis.averagePlaybackBasedCpm],
+      ['RPM Change %', analysis.rpmChangePercent ?? null],
+      ['CPM Change %', analysis.cpmChangePercent ?? null]
+    ], 'Revenue Summary'),
+    {
+      title: 'Daily Revenue',
+      columns: ['Date', 'Estimated Revenue', 'RPM', 'CPM', 'Playback-based CPM'],
+      rows: analysis.daily.map(day => [day.date, day.estimatedRevenue, day.rpm, day.cpm, day.playbackBasedCpm])
+    }
+  ];
+}
+
+export function revenueBreakdownTable(rows: RevenueRow[], dimensionLabel: string): TableData {
+  const metricNames = rows.length > 0 ? Object.keys(rows[0].metrics) : [];
+  return {
+    title: `Revenue by ${dimensionLabel}`,
+    columns: [dimensionLabel, ...metricNames],
+    rows: rows.map(row => [row.key, ...metricNames.map(name => row.metrics[name])])
+  };
+}
@@ -0,0 +1,196 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { LoggingLevel, ServerNotification, SetLevelRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// Minimum level written to stderr; MCP clients pick their own level with logging/setLevel
+export const LOG_LEVEL_ENV_VAR = 'YOUTUBE_MCP_LOG_LEVEL';
+
+export interface Logger {
+  debug(message: string, details?: unknown): void;
+  info(message: string, details?: unknown): void;
+  warn(message: string, details?: unknown): void;
+  error(message: string, details?: unknown): void;
+}
+
+// MCP severities in ascending order, used to compare against a client's setLevel
+const MCP_LEVELS: LoggingLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+
+const TO_MCP_LEVEL: Record<LogLevel, LoggingLevel> = {
+  debug: 'debug',
+  info: 'info',
+  warn: 'warning',
+  error: 'error'
+};
+
+const DEFAULT_CLIENT_LEVEL: LoggingLevel = 'info';
+const REDACTED = '[REDACTED]';
+const MAX_DEPTH = 6;
+
+// Object keys whose values are always hidden
+const SECRET_KEY_PATTERN = /token|secret|password|passphrase|authorization|cookie|api[-_]?key|^code$|^key$/i;
+
+// Secrets that can show up inside free text such as error messages and URLs
+const SECRET_VALUE_PATTERNS: Array<[RegExp, string]> = [
+  [/(Bearer\s+)[A-Za-z0-9._~+/=-]+/gi, `$1${REDACTED}`],
+  [/ya29\.[A-Za-z0-9._-]+/g, REDACTED],
+  [/1\/\/[A-Za-z0-9._-]{20,}/g, REDACTED],
+  [/((?:access_token|refresh_token|id_token|client_secret|code|key)=)[^&\s"']+/gi, `$1${REDACTED}`],
+  [/("(?:access_token|refresh_token|id_token|client_secret)"\s*:\s*")[^"]*/gi, `$1${REDACTED}`]
+];
+
+interface LoggingTarget {
+  level: LoggingLevel;
+  initialized: boolean;
+}
+
+interface RequestScope {
+  server: Server;
+  // Sends on the request's own response stream (HTTP) instead of the standalone one
+  sendNotification?: (notification: ServerNotification) => Promise<void>;
+}
+
+const targets = new Map<Server, LoggingTarget>();
+const requestScope = new AsyncLocalStorage<RequestScope>();
+
+function resolveStderrLevel(): LogLevel {
+  const value = process.env[LOG_LEVEL_ENV_VAR]?.toLowerCase();
+  return (LOG_LEVELS as readonly string[]).includes(value ?? '') ? value as LogLevel : 'info';
+}
+
+const stderrLevel = resolveStderrLevel();
+
+function isEnabled(level: LoggingLevel, threshold: LoggingLevel): boolean {
+  return MCP_LEVELS.indexOf(level) >= MCP_LEVELS.indexOf(threshold);
+}
+
+function redactString(value: string): string {
+  return SECRET_VALUE_PATTERNS.reduce((text, [pattern, replacement]) => text.replace(pattern, replacement), value);
+}
+
+/**
+ * Returns a copy of value that is safe to log: secret-looking keys are masked,
+ * token patterns in strings are replaced and errors are reduced to plain objects.
+ */
+export function redact(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (seen.has(value) || depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    const error = value as Error & { code?: unknown };
+    return {
+      name: error.name,
+      message: redactString(error.message),
+      ...(error.code !== undefined ? { code: error.code } : {}),
+      ...(stderrLevel === 'debug' && error.stack ? { stack: redactString(error.stack) } : {})
+    };
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, depth + 1, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+  Object.entries(value).forEach(([key, entry]) => {
+    // Numbers and flags such as HTTP status codes or hasRefreshToken are kept
+    const isSecretValue = typeof entry === 'string' || (typeof entry === 'object' && entry !== null);
+    result[key] = SECRET_KEY_PATTERN.test(key) && isSecretValue
+      ? REDACTED
+      : redact(entry, depth + 1, seen);
+  });
+  return result;
+}
+
+function writeStderr(level: LogLevel, name: string, message: string, details: unknown): void {
+  const line = `${new Date().toISOString()} ${level.toUpperCase()} [${name}] ${message}`;
+  // stdout carries the stdio protocol stream, so logs only ever go to stderr
+  console.error(details === undefined ? line : `${line} ${JSON.stringify(details)}`);
+}
+
+function forwardToClients(level: LoggingLevel, name: string, message: string, details: unknown): void {
+  // Inside a request only that session's client is notified, so HTTP sessions never see each other's logs
+  const scoped = requestScope.getStore();
+  const scopes: RequestScope[] = scoped ? [scoped] : [...targets.keys()].map(server => ({ server }));
+
+  scopes.forEach(({ server, sendNotification }) => {
+    const target = targets.get(server);
+    if (!target?.initialized || !isEnabled(level, target.level)) {
+      return;
+    }
+    const params = { level, logger: name, data: details === undefined ? message : { message, details } };
+    const sent = sendNotification
+      ? sendNotification({ method: 'notifications/message', params })
+      : server.sendLoggingMessage(params);
+    sent.catch((error) => {
+      writeStderr('warn', 'logger', 'Failed to forward log message', redact(error));
+    });
+  });
+}
+
+function log(level: LogLevel, name: string, message: string, details?: unknown): void {
+  const safeMessage = redactString(message);
+  const safeDetails = details === undefined ? undefined : redact(details);
+
+  if (isEnabled(TO_MCP_LEVEL[level], TO_MCP_LEVEL[stderrLevel])) {
+    writeStderr(level, name, safeMessage, safeDetails);
+  }
+  forwardToClients(TO_MCP_LEVEL[level], name, safeMessage, safeDetails);
+}
+
+/**
+ * Creates a named logger. Messages go to stderr and, as notifications/message,
+ * to every MCP client that has been attached with attachLoggingServer.
+ */
+export function createLogger(name: string): Logger {
+  return {
+    debug: (message, details) => log('debug', name, message, details),
+    info: (message, details) => log('info', name, message, details),
+    warn: (message, details) => log('warn', name, message, details),
+    error: (message, details) => log('error', name, message, details)
+  };
+}
+
+/**
+ * Declares the logging capability on a server, answers logging/setLevel and starts
+ * forwarding log messages once the client has initialized. Must be called before connect.
+ * Returns a function that stops forwarding, for use when the server closes.
+ */
+export function attachLoggingServer(server: Server): () => void {
+  const target: LoggingTarget = { level: DEFAULT_CLIENT_LEVEL, initialized: false };
+  targets.set(server, target);
+
+  server.registerCapabilities({ logging: {} });
+  server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+    target.level = request.params.level;
+    return {};
+  });
+
+  const previousOnInitialized = server.oninitialized;
+  server.oninitialized = () => {
+    target.initialized = true;
+    previousOnInitialized?.();
+  };
+
+  return () => {
+    targets.delete(server);
+  };
+}
+
+// Runs a request handler with logs scoped to the given server's client and request
+export function runWithLoggingServer<T>(
+  server: Server,
+  sendNotification: RequestScope['sendNotification'],
+  fn: () => T
+): T {
+  return requestScope.run({ server, sendNotification }, fn);
+}
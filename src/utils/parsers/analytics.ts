@@ -1,4 +1,4 @@
-import { ParsedAnalytics, ColumnHeader, MetricTotals, parseAnalyticsResponse } from '../transformers/analytics.js';
+import { ParsedAnalytics, ColumnHeader, MetricTotals, parseAnalyticsResponse, toFiniteNumber } from '../transformers/analytics.js';
 
 export { parseAnalyticsResponse };
 
@@ -38,27 +38,25 @@ export interface SearchTermData {
   views: number;
 }
 
+export interface RevenueRow {
+  key: string;
+  metrics: {
+    [metric: string]: number;
+  };
+}
+
+// Report rows are [ageGroup, gender, viewerPercentage]
 export function parseDemographics(data: ParsedAnalytics): DemographicData[] {
   if (!data.rows || data.rows.length === 0) return [];
   
   return data.rows.map(row => {
-    const demographic = row[0] || '';
-    const viewerPercentage = Number(row[1] || 0);
-    
-    let ageGroup = '';
-    let gender = '';
-    
-    if (demographic.includes('.')) {
-      [ageGroup, gender] = demographic.split('.');
-    } else {
-      ageGroup = demographic;
-      gender = 'unknown';
-    }
+    const ageGroup = String(row[0] || 'unknown');
+    const gender = String(row[1] || 'unknown');
     
     return {
-      ageGroup: ageGroup.replace('age', 'Ages ').replace('-', '-'),
+      ageGroup: ageGroup.replace('age', 'Ages '),
       gender: gender.charAt(0).toUpperCase() + gender.slice(1),
-      viewerPercentage
+      viewerPercentage: toFiniteNumber(row[2])
     };
   });
 }
@@ -68,9 +66,9 @@ export function parseGeographic(data: ParsedAnalytics): GeographicData[] {
   
   return data.rows.map(row => ({
     country: row[0] || 'Unknown',
-    views: Number(row[1] || 0),
-    estimatedMinutesWatched: Number(row[2] || 0),
-    averageViewDuration: Number(row[3] || 0)
+    views: toFiniteNumber(row[1]),
+    estimatedMinutesWatched: toFiniteNumber(row[2]),
+    averageViewDuration: toFiniteNumber(row[3])
   })).sort((a, b) => b.views - a.views);
 }
 
@@ -79,9 +77,9 @@ export function parseSubscriberAnalytics(data: ParsedAnalytics): SubscriberData[
   
   return data.rows.map(row => ({
     subscribedStatus: row[0] || 'unknown',
-    views: Number(row[1] || 0),
-    estimatedMinutesWatched: Number(row[2] || 0),
-    averageViewDuration: Number(row[3] || 0)
+    views: toFiniteNumber(row[1]),
+    estimatedMinutesWatched: toFiniteNumber(row[2]),
+    averageViewDuration: toFiniteNumber(row[3])
   }));
 }
 
@@ -90,8 +88,8 @@ export function parseTrafficSources(data: ParsedAnalytics): TrafficSourceData[]
   
   return data.rows.map(row => ({
     sourceType: row[0] || 'Unknown',
-    views: Number(row[1] || 0),
-    estimatedMinutesWatched: Number(row[2] || 0)
+    views: toFiniteNumber(row[1]),
+    estimatedMinutesWatched: toFiniteNumber(row[2])
   })).sort((a, b) => b.views - a.views);
 }
 
@@ -100,7 +98,7 @@ export function parseSearchTerms(data: ParsedAnalytics): SearchTermData[] {
   
   return data.rows.map(row => ({
     searchTerm: row[0] || 'Unknown',
-    views: Number(row[1] || 0)
+    views: toFiniteNumber(row[1])
   })).sort((a, b) => b.views - a.views);
 }
 
@@ -135,6 +133,20 @@ export function parseEngagementMetrics(data: ParsedAnalytics): MetricTotals {
   };
 }
 
+export function parseRevenueRows(data: ParsedAnalytics): RevenueRow[] {
+  if (!data.rows || data.rows.length === 0) return [];
+
+  const metricNames = data.columnHeaders.slice(1).map(header => header.name);
+
+  return data.rows.map(row => {
+    const metrics: RevenueRow['metrics'] = {};
+    metricNames.forEach((name, index) => {
+      metrics[name] = toFiniteNumber(row[index + 1]);
+    });
+    return { key: String(row[0] ?? 'Unknown'), metrics };
+  });
+}
+
 export function parseComparisonMetrics(data: any): {
   period1Data: ParsedAnalytics;
   period2Data: ParsedAnalytics;
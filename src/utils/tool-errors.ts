@@ -0,0 +1,137 @@
+import { AuthenticationError } from '../auth/types.js';
+import { ToolResult } from '../types.js';
+import { QuotaBudgetExceededError, YouTubeApiError } from '../youtube/types.js';
+
+export const TOOL_ERROR_CODES = [
+  'AUTH_REQUIRED',
+  'QUOTA_EXCEEDED',
+  'RATE_LIMITED',
+  'INVALID_DATE_RANGE',
+  'INVALID_ARGUMENT',
+  'NOT_OWNER',
+  'NOT_FOUND',
+  'NO_DATA',
+  'API_UNAVAILABLE',
+  'CANCELLED',
+  'INTERNAL_ERROR'
+] as const;
+
+export type ToolErrorCode = typeof TOOL_ERROR_CODES[number];
+
+// Google reasons for a token that lacks a required OAuth scope
+const SCOPE_REASONS = new Set(['insufficientPermissions', 'ACCESS_TOKEN_SCOPE_INSUFFICIENT']);
+
+const DEFAULT_REMEDIATION: Record<ToolErrorCode, string> = {
+  AUTH_REQUIRED: 'Run check_auth_status to see what is missing, then sign in with start_auth and complete_auth (or add_account) and retry.',
+  QUOTA_EXCEEDED: 'Wait for the daily quota reset at midnight Pacific time, or request a higher quota in the Google Cloud Console.',
+  RATE_LIMITED: 'Wait a minute and retry, or reduce the number of parallel requests.',
+  INVALID_DATE_RANGE: 'Pass startDate and endDate as YYYY-MM-DD, with startDate on or before endDate and not in the future.',
+  INVALID_ARGUMENT: 'Check the tool arguments against its input schema and retry.',
+  NOT_OWNER: 'Analytics are only available for channels and videos owned by the authenticated account. Check the ID, or pick the owning channel with the account parameter or switch_account.',
+  NOT_FOUND: 'Check that the ID is correct and that the video or channel has not been deleted or made private.',
+  NO_DATA: 'Try a longer or more recent date range; YouTube Analytics data can lag by up to 3 days.',
+  API_UNAVAILABLE: 'The YouTube API failed temporarily. Retry in a few minutes.',
+  CANCELLED: 'The request was cancelled. Run the tool again if you still need the result.',
+  INTERNAL_ERROR: 'Retry the call. If it keeps failing, check the server logs for details.'
+};
+
+/**
+ * An expected failure with a stable code, thrown by tools and clients when they know
+ * exactly what went wrong. The remediation defaults to the generic one for the code.
+ */
+export class ToolError extends Error {
+  readonly remediation: string;
+
+  constructor(public readonly code: ToolErrorCode, message: string, remediation?: string) {
+    super(message);
+    this.name = 'ToolError';
+    this.remediation = remediation ?? DEFAULT_REMEDIATION[code];
+  }
+}
+
+export interface ToolErrorInfo {
+  [key: string]: unknown;
+  code: ToolErrorCode;
+  message: string;
+  remediation: string;
+  // Whether the same call may succeed later without changes
+  retryable: boolean;
+  httpStatus?: number;
+  reason?: string;
+}
+
+function describeApiError(error: YouTubeApiError): ToolErrorInfo {
+  const { httpStatus, reason } = error;
+  const info = (code: ToolErrorCode, retryable = false, remediation = DEFAULT_REMEDIATION[code]): ToolErrorInfo =>
+    ({ code, message: error.message, remediation, retryable, httpStatus, reason });
+
+  switch (error.kind) {
+    case 'quota':
+      return info('QUOTA_EXCEEDED');
+    case 'rateLimit': {
+      const wait = error.retryAfterMs !== undefined ? `Wait ${Math.ceil(error.retryAfterMs / 1000)} seconds and retry.` : undefined;
+      return info('RATE_LIMITED', true, wait);
+    }
+    case 'auth':
+      return info('AUTH_REQUIRED');
+    case 'permission':
+      return reason && SCOPE_REASONS.has(reason)
+        ? info('AUTH_REQUIRED', false, 'The account did not grant the permission this tool needs. Sign in again with start_auth and complete_auth (or add_account) and approve all requested scopes.')
+        : info('NOT_OWNER');
+    case 'notFound':
+      return info('NOT_FOUND');
+    case 'invalidRequest':
+      return info('INVALID_ARGUMENT');
+    case 'server':
+    case 'network':
+      return info('API_UNAVAILABLE', true);
+    default:
+      return info('INTERNAL_ERROR');
+  }
+}
+
+/**
+ * Maps any error thrown while running a tool to a stable code, an explanation and a
+ * concrete next step.
+ */
+export function describeToolError(error: unknown): ToolErrorInfo {
+  const message = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof ToolError) {
+    return { code: error.code, message, remediation: error.remediation, retryable: false };
+  }
+  if (error instanceof QuotaBudgetExceededError) {
+    return {
+      code: 'QUOTA_EXCEEDED',
+      message,
+      remediation: `Wait until ${error.resetsAt}, or raise the budget with YOUTUBE_MCP_QUOTA_BUDGET. get_quota_usage shows which tools used it.`,
+      retryable: false
+    };
+  }
+  if (error instanceof YouTubeApiError) {
+    return describeApiError(error);
+  }
+  if (error instanceof AuthenticationError) {
+    return { code: 'AUTH_REQUIRED', message, remediation: DEFAULT_REMEDIATION.AUTH_REQUIRED, retryable: false };
+  }
+  if (error instanceof Error && error.name === 'AbortError') {
+    return { code: 'CANCELLED', message, remediation: DEFAULT_REMEDIATION.CANCELLED, retryable: true };
+  }
+  return { code: 'INTERNAL_ERROR', message, remediation: DEFAULT_REMEDIATION.INTERNAL_ERROR, retryable: false };
+}
+
+/**
+ * Builds the isError result every tool returns on failure. The same details appear in
+ * the text for people and under structuredContent.error for programs.
+ */
+export function toolErrorResult(error: unknown): ToolResult {
+  const info = describeToolError(error);
+  return {
+    content: [{
+      type: "text",
+      text: `Error [${info.code}]: ${info.message}\nHow to fix: ${info.remediation}`
+    }],
+    structuredContent: { error: info },
+    isError: true
+  };
+}
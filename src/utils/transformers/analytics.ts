@@ -81,6 +81,12 @@ export function extractColumnValues(rows: any[][], columnHeaders: ColumnHeader[]
   return columnData;
 }
 
+// Report cells may be numbers or numeric strings; anything else counts as 0, never NaN
+export function toFiniteNumber(value: unknown): number {
+  const number = Number(value ?? 0);
+  return Number.isFinite(number) ? number : 0;
+}
+
 export function calculatePercentageChange(oldValue: number, newValue: number): number {
   if (oldValue === 0) return newValue > 0 ? 100 : 0;
   return ((newValue - oldValue) / oldValue) * 100;
@@ -0,0 +1,26 @@
+// ISO 8601 durations as returned in contentDetails.duration, e.g. PT1H2M3S or P1DT5M
+const ISO_DURATION_PATTERN = /^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/**
+ * Converts an ISO 8601 video duration to seconds. Returns undefined for values it
+ * cannot parse, such as P0D for upcoming live streams.
+ */
+export function parseIsoDuration(duration: string | undefined): number | undefined {
+  const match = duration ? ISO_DURATION_PATTERN.exec(duration) : null;
+  if (!match) {
+    return undefined;
+  }
+  const [days, hours, minutes, seconds] = match.slice(1).map(part => Number(part || 0));
+  const total = ((days * 24 + hours) * 60 + minutes) * 60 + seconds;
+  return total > 0 ? total : undefined;
+}
+
+// Formats seconds as H:MM:SS, or M:SS under an hour
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
@@ -1,3 +1,5 @@
 export * from './thumbnails.js';
 export * from './analytics.js';
-export * from './statistics.js';
\ No newline at end of file
+export * from './statistics.js';
+export * from './uploads.js';
+export * from './duration.js';
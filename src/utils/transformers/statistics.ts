@@ -1,3 +1,5 @@
+import { toFiniteNumber } from './analytics.js';
+
 export interface EngagementRates {
   likeRate: number;
   commentRate: number;
@@ -48,8 +50,8 @@ export function calculateRetentionMetrics(retentionData: RetentionPoint[]): Rete
 
 export function parseRetentionData(rows: any[][]): RetentionPoint[] {
   return rows.map(row => ({
-    timePercent: (row[0] || 0) * 100,
-    retentionPercent: (row[1] || 0) * 100
+    timePercent: toFiniteNumber(row[0]) * 100,
+    retentionPercent: toFiniteNumber(row[1]) * 100
   }));
 }
 
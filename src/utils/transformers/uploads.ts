@@ -0,0 +1,51 @@
+import { UploadedVideo, UploadFilters } from '../../youtube/types.js';
+import { ToolError } from '../tool-errors.js';
+
+export function filterUploads(videos: UploadedVideo[], filters: UploadFilters): UploadedVideo[] {
+  const query = filters.query?.trim().toLowerCase();
+  const privacy = filters.privacyStatus ?? 'all';
+
+  return videos.filter(video => {
+    // publishedAt is an RFC 3339 timestamp, so its date prefix compares directly with YYYY-MM-DD
+    const publishedDate = video.publishedAt.slice(0, 10);
+    if (filters.startDate && publishedDate < filters.startDate) {
+      return false;
+    }
+    if (filters.endDate && publishedDate > filters.endDate) {
+      return false;
+    }
+    if (query && !video.title.toLowerCase().includes(query)) {
+      return false;
+    }
+    if (privacy === 'scheduled') {
+      return video.privacyStatus === 'private' && !!video.publishAt;
+    }
+    return privacy === 'all' || video.privacyStatus === privacy;
+  });
+}
+
+// Cursors are opaque to clients; they encode the offset of the next page
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new ToolError('INVALID_ARGUMENT', `Invalid cursor "${cursor}"`, 'Pass the nextCursor value from a previous response, or omit cursor to start from the first page.');
+}
+
+export function paginate<T>(items: T[], pageSize: number, cursor?: string): { items: T[]; nextCursor?: string } {
+  const offset = cursor ? decodeCursor(cursor) : 0;
+  const end = offset + pageSize;
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? encodeCursor(end) : undefined
+  };
+}
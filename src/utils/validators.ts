@@ -0,0 +1,28 @@
+import { ToolError } from './tool-errors.js';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function isCalendarDate(value: string): boolean {
+  // Date.parse accepts 2024-02-30 and rolls it over, so check the round trip
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Throws INVALID_DATE_RANGE unless both dates are real YYYY-MM-DD dates, the range is
+ * not reversed and it does not start in the future.
+ */
+export function assertDateRange(startDate: string, endDate: string, labels: [string, string] = ['startDate', 'endDate']): void {
+  [startDate, endDate].forEach((value, index) => {
+    if (typeof value !== 'string' || !DATE_PATTERN.test(value) || !isCalendarDate(value)) {
+      throw new ToolError('INVALID_DATE_RANGE', `Invalid ${labels[index]} "${value}". Expected a date as YYYY-MM-DD`);
+    }
+  });
+  if (startDate > endDate) {
+    throw new ToolError('INVALID_DATE_RANGE', `${labels[0]} ${startDate} is after ${labels[1]} ${endDate}`);
+  }
+  const today = new Date().toISOString().split('T')[0];
+  if (startDate > today) {
+    throw new ToolError('INVALID_DATE_RANGE', `${labels[0]} ${startDate} is in the future`);
+  }
+}
@@ -0,0 +1,266 @@
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readdirSync, readFileSync, statSync } from 'fs';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { youtube_v3, youtubeAnalytics_v2 } from 'googleapis';
+import { createLogger, redact } from '../utils/logger.js';
+import { ToolError } from '../utils/tool-errors.js';
+import { ApiMethod, YouTubeBackend, YouTubeBackendFactory } from './backend.js';
+import { FakeApiError } from './fake-backend.js';
+import { buildRequestKey } from './response-cache.js';
+import { classifyApiError } from './retry-policy.js';
+
+const log = createLogger('recorder');
+
+const SAVE_DELAY_MS = 500;
+const REDACTED = '[REDACTED]';
+
+// Channel IDs (UC...) and the matching uploads playlist IDs (UU...)
+const CHANNEL_ID_PATTERN = /(?<![A-Za-z0-9_-])(UC|UU)([A-Za-z0-9_-]{22})(?![A-Za-z0-9_-])/g;
+// Marks an alias, so sanitizing twice gives the same result
+const ALIAS_MARKER = 'REDACTED';
+// Credentials that may appear as keys; page tokens are kept because replay needs them
+const SECRET_KEY_PATTERN = /^(access_token|refresh_token|id_token|client_secret|key|authorization|cookie)$/i;
+const CONTENT_OWNER_PATTERN = /(contentOwner==)([^;,&\s"]+)/g;
+
+export interface RecordingOptions {
+  // File that captured requests are appended to
+  recordPath?: string;
+  // Recording file, or directory of them, to serve instead of the YouTube APIs
+  replayPath?: string;
+}
+
+export interface RecordedExchange {
+  // Endpoint as named by YouTubeClient, e.g. "youtube.videos.list"
+  endpoint: string;
+  params: unknown;
+  // Response data, or the API error the request failed with
+  response?: unknown;
+  error?: {
+    status: number;
+    reason?: string;
+    message: string;
+    retryAfterSeconds?: number;
+  };
+}
+
+interface RecordingFile {
+  version: 1;
+  entries: RecordedExchange[];
+}
+
+function alias(value: string): string {
+  if (value.startsWith(ALIAS_MARKER)) {
+    return value;
+  }
+  const hash = createHash('sha256').update(value).digest('base64url');
+  return `${ALIAS_MARKER}${hash.slice(0, 22 - ALIAS_MARKER.length)}`;
+}
+
+function sanitizeString(value: string): string {
+  const text = redact(value) as string;
+  return text
+    .replace(CHANNEL_ID_PATTERN, (_, prefix: string, id: string) => `${prefix}${alias(id)}`)
+    .replace(CONTENT_OWNER_PATTERN, (_, prefix: string, owner: string) => `${prefix}${alias(owner)}`);
+}
+
+/**
+ * Scrubs a request or response for storage: credentials are masked and every channel ID
+ * and content owner is replaced by a stable alias. The same real ID always gets the same
+ * alias, so a channel and its uploads playlist still line up after scrubbing.
+ */
+export function sanitizeRecording(value: unknown): unknown {
+  if (typeof value === 'string') {
+    return sanitizeString(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(sanitizeRecording);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => {
+      if (SECRET_KEY_PATTERN.test(key)) {
+        return [key, REDACTED];
+      }
+      if (key === 'onBehalfOfContentOwner' && typeof entry === 'string') {
+        return [key, alias(entry)];
+      }
+      return [key, sanitizeRecording(entry)];
+    }));
+  }
+  return value;
+}
+
+function readRecordingFile(filePath: string): RecordedExchange[] {
+  const file: RecordingFile = JSON.parse(readFileSync(filePath, 'utf8'));
+  if (file.version !== 1 || !Array.isArray(file.entries)) {
+    throw new Error(`Unsupported recording file ${filePath}`);
+  }
+  return file.entries;
+}
+
+/**
+ * Loads a recording file, or every .json file of a directory in name order.
+ */
+export function loadRecordings(replayPath: string): RecordedExchange[] {
+  if (!statSync(replayPath).isDirectory()) {
+    return readRecordingFile(replayPath);
+  }
+  return readdirSync(replayPath)
+    .filter(name => name.endsWith('.json'))
+    .sort()
+    .flatMap(name => readRecordingFile(path.join(replayPath, name)));
+}
+
+/**
+ * Collects sanitized request/response pairs and writes them to one recording file.
+ * An existing file is extended, so several sessions can build up one set of fixtures.
+ */
+export class ApiRecorder {
+  private readonly entries: RecordedExchange[];
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly filePath: string) {
+    this.entries = existsSync(filePath) ? readRecordingFile(filePath) : [];
+  }
+
+  record(entry: RecordedExchange): void {
+    this.entries.push(sanitizeRecording(entry) as RecordedExchange);
+    this.scheduleSave();
+  }
+
+  // Writes pending entries immediately, e.g. before the process exits
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save();
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch((error) => log.warn('Failed to write recording', error));
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private async save(): Promise<void> {
+    mkdirSync(path.dirname(this.filePath), { recursive: true, mode: 0o700 });
+    const file: RecordingFile = { version: 1, entries: this.entries };
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+type Endpoint =
+  | 'youtube.channels.list'
+  | 'youtube.playlists.list'
+  | 'youtube.playlistItems.list'
+  | 'youtube.videos.list'
+  | 'youtube.search.list'
+  | 'youtubeAnalytics.reports.query';
+
+// Recording and replay only pass params and response data through, whatever the endpoint
+type PassThroughMethod = (params: unknown) => Promise<{ data: unknown }>;
+
+// Builds a backend whose methods come from createMethod, keyed by YouTubeClient endpoint name
+function buildBackend(createMethod: <P, R>(endpoint: Endpoint) => ApiMethod<P, R>): YouTubeBackend {
+  return {
+    youtube: {
+      channels: { list: createMethod('youtube.channels.list') },
+      playlists: { list: createMethod('youtube.playlists.list') },
+      playlistItems: { list: createMethod('youtube.playlistItems.list') },
+      videos: { list: createMethod('youtube.videos.list') },
+      search: { list: createMethod('youtube.search.list') }
+    },
+    youtubeAnalytics: {
+      reports: { query: createMethod('youtubeAnalytics.reports.query') }
+    }
+  };
+}
+
+// The methods of a backend by endpoint name, called on their resource so `this` is kept
+function getMethods(backend: YouTubeBackend): Record<Endpoint, PassThroughMethod> {
+  const { youtube, youtubeAnalytics } = backend;
+  return {
+    'youtube.channels.list': params => youtube.channels.list(params as youtube_v3.Params$Resource$Channels$List),
+    'youtube.playlists.list': params => youtube.playlists.list(params as youtube_v3.Params$Resource$Playlists$List),
+    'youtube.playlistItems.list': params => youtube.playlistItems.list(params as youtube_v3.Params$Resource$Playlistitems$List),
+    'youtube.videos.list': params => youtube.videos.list(params as youtube_v3.Params$Resource$Videos$List),
+    'youtube.search.list': params => youtube.search.list(params as youtube_v3.Params$Resource$Search$List),
+    'youtubeAnalytics.reports.query': params => youtubeAnalytics.reports.query(params as youtubeAnalytics_v2.Params$Resource$Reports$Query)
+  };
+}
+
+/**
+ * Wraps a backend so every response, and every API error, is passed to the recorder.
+ * Cancellations and network failures have no response and are not recorded.
+ */
+export function createRecordingBackend(backend: YouTubeBackendFactory, recorder: ApiRecorder): YouTubeBackendFactory {
+  return (signal) => {
+    const methods = getMethods(backend(signal));
+    return buildBackend(<P, R>(endpoint: Endpoint) => async (params: P) => {
+      try {
+        const response = await methods[endpoint](params);
+        recorder.record({ endpoint, params, response: response.data });
+        // The inner backend answered this endpoint, so the data has its response type
+        return response as { data: R };
+      } catch (error) {
+        const { httpStatus, reason, retryAfterMs } = classifyApiError(error);
+        if (httpStatus !== undefined) {
+          recorder.record({
+            endpoint,
+            params,
+            error: {
+              status: httpStatus,
+              reason,
+              message: error instanceof Error ? error.message : String(error),
+              retryAfterSeconds: retryAfterMs !== undefined ? Math.ceil(retryAfterMs / 1000) : undefined
+            }
+          });
+        }
+        throw error;
+      }
+    });
+  };
+}
+
+/**
+ * Serves recorded exchanges back. Requests are matched on endpoint and sanitized params;
+ * when a request was recorded several times the answers are replayed in order and the
+ * last one repeats, so a recorded retry sequence plays out the same way every run.
+ */
+export function createReplayBackend(entries: RecordedExchange[]): YouTubeBackendFactory {
+  const recorded = new Map<string, RecordedExchange[]>();
+  entries.forEach(entry => {
+    const key = buildRequestKey('replay', entry.endpoint, entry.params);
+    recorded.set(key, [...(recorded.get(key) ?? []), entry]);
+  });
+  const served = new Map<string, number>();
+
+  return (signal) => buildBackend(<P, R>(endpoint: Endpoint) => async (params: P) => {
+    signal?.throwIfAborted();
+    const key = buildRequestKey('replay', endpoint, sanitizeRecording(params));
+    const matches = recorded.get(key);
+    if (!matches) {
+      throw new ToolError(
+        'NOT_FOUND',
+        `No recorded response for ${endpoint} with params ${JSON.stringify(sanitizeRecording(params))}`,
+        'Replay only serves requests captured with --record. Record this call first, or repeat it with the arguments used while recording.'
+      );
+    }
+    const index = served.get(key) ?? 0;
+    served.set(key, index + 1);
+    const entry = matches[Math.min(index, matches.length - 1)];
+    if (entry.error) {
+      throw new FakeApiError(entry.error.status, entry.error.reason ?? 'unknown', entry.error.message, entry.error.retryAfterSeconds);
+    }
+    // Recorded from this endpoint, so the data has its response type
+    return { data: structuredClone(entry.response) as R };
+  });
+}
@@ -0,0 +1,37 @@
+export interface ApiUsageStats {
+  // Every request attempt sent to the YouTube Data or Analytics API, retries included
+  calls: number;
+  errors: number;
+  retries: number;
+  // Requests answered by an identical request that was already in flight
+  coalesced: number;
+  since: string;
+}
+
+const usage: ApiUsageStats = {
+  calls: 0,
+  errors: 0,
+  retries: 0,
+  coalesced: 0,
+  since: new Date().toISOString()
+};
+
+export function recordApiCall(): void {
+  usage.calls += 1;
+}
+
+export function recordApiError(): void {
+  usage.errors += 1;
+}
+
+export function recordApiRetry(): void {
+  usage.retries += 1;
+}
+
+export function recordApiCoalesced(): void {
+  usage.coalesced += 1;
+}
+
+export function getApiUsageStats(): ApiUsageStats {
+  return { ...usage };
+}
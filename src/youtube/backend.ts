@@ -0,0 +1,32 @@
+import { OAuth2Client } from 'google-auth-library';
+import { google, youtube_v3, youtubeAnalytics_v2 } from 'googleapis';
+
+export type ApiMethod<P, R> = (params: P) => Promise<{ data: R }>;
+
+/**
+ * The subset of the YouTube Data and Analytics APIs that YouTubeClient calls. The googleapis
+ * clients satisfy it as-is; the fake backend implements it from fixtures.
+ */
+export interface YouTubeBackend {
+  youtube: {
+    channels: { list: ApiMethod<youtube_v3.Params$Resource$Channels$List, youtube_v3.Schema$ChannelListResponse> };
+    playlists: { list: ApiMethod<youtube_v3.Params$Resource$Playlists$List, youtube_v3.Schema$PlaylistListResponse> };
+    playlistItems: { list: ApiMethod<youtube_v3.Params$Resource$Playlistitems$List, youtube_v3.Schema$PlaylistItemListResponse> };
+    videos: { list: ApiMethod<youtube_v3.Params$Resource$Videos$List, youtube_v3.Schema$VideoListResponse> };
+    search: { list: ApiMethod<youtube_v3.Params$Resource$Search$List, youtube_v3.Schema$SearchListResponse> };
+  };
+  youtubeAnalytics: {
+    reports: { query: ApiMethod<youtubeAnalytics_v2.Params$Resource$Reports$Query, youtubeAnalytics_v2.Schema$QueryResponse> };
+  };
+}
+
+// Creates a backend for one tool call; the signal aborts its in-flight requests
+export type YouTubeBackendFactory = (signal?: AbortSignal) => YouTubeBackend;
+
+export function createGoogleBackend(auth: OAuth2Client): YouTubeBackendFactory {
+  return (signal) => ({
+    // The signal is merged into every request so cancelling aborts in-flight HTTP calls
+    youtube: google.youtube({ version: 'v3', auth, signal }),
+    youtubeAnalytics: google.youtubeAnalytics({ version: 'v2', auth, signal })
+  });
+}
@@ -0,0 +1,166 @@
+import path from 'path';
+import { RecordingOptions } from './api-recorder.js';
+import { getCliFlag, resolveAuthPaths } from '../auth/paths.js';
+import { MockModeOptions } from './fake-backend.js';
+import { QuotaTrackerOptions } from './quota-tracker.js';
+import { RequestSchedulerOptions } from './request-scheduler.js';
+import { CACHE_MODES, CacheMode, DEFAULT_CACHE_TTLS, ResponseCacheOptions } from './response-cache.js';
+import { YouTubeClientOptions } from './types.js';
+
+export const YOUTUBE_ENV_VARS = {
+  contentOwner: 'YOUTUBE_MCP_CONTENT_OWNER',
+  cache: 'YOUTUBE_MCP_CACHE',
+  cacheFile: 'YOUTUBE_MCP_CACHE_FILE',
+  cacheTtls: 'YOUTUBE_MCP_CACHE_TTLS',
+  quotaBudget: 'YOUTUBE_MCP_QUOTA_BUDGET',
+  analyticsQuotaBudget: 'YOUTUBE_MCP_ANALYTICS_QUOTA_BUDGET',
+  quotaFile: 'YOUTUBE_MCP_QUOTA_FILE',
+  maxConcurrency: 'YOUTUBE_MCP_MAX_CONCURRENCY',
+  maxRequestsPerSecond: 'YOUTUBE_MCP_MAX_RPS',
+  mock: 'YOUTUBE_MCP_MOCK',
+  mockFixtures: 'YOUTUBE_MCP_MOCK_FIXTURES',
+  record: 'YOUTUBE_MCP_RECORD',
+  replay: 'YOUTUBE_MCP_REPLAY'
+} as const;
+
+export const YOUTUBE_CLI_FLAGS = {
+  contentOwner: '--content-owner',
+  cache: '--cache',
+  mock: '--mock',
+  record: '--record',
+  replay: '--replay'
+} as const;
+
+const CACHE_MAX_ENTRIES = 2000;
+const CACHE_MAX_STALE_SECONDS = 7 * 24 * 60 * 60;
+// Default daily Data API quota of a Google Cloud project
+const DEFAULT_DATA_QUOTA_BUDGET = 10000;
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_MAX_REQUESTS_PER_SECOND = 10;
+
+/**
+ * Resolves YouTubeClient options from CLI flags (highest precedence) and environment variables.
+ */
+export function resolveYouTubeClientOptions(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): YouTubeClientOptions {
+  return {
+    contentOwner: getCliFlag(argv, YOUTUBE_CLI_FLAGS.contentOwner) || env[YOUTUBE_ENV_VARS.contentOwner] || undefined
+  };
+}
+
+/**
+ * Resolves mock mode, which serves fixtures instead of calling Google. YOUTUBE_MCP_MOCK_FIXTURES
+ * replaces the built-in fixtures with a JSON file.
+ */
+export function resolveMockOptions(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): MockModeOptions {
+  return {
+    enabled: argv.includes(YOUTUBE_CLI_FLAGS.mock) || ['1', 'true', 'yes'].includes((env[YOUTUBE_ENV_VARS.mock] || '').toLowerCase()),
+    fixturesPath: env[YOUTUBE_ENV_VARS.mockFixtures] ? path.resolve(env[YOUTUBE_ENV_VARS.mockFixtures]!) : undefined
+  };
+}
+
+/**
+ * Resolves record and replay of API traffic. Recording appends sanitized exchanges to a file;
+ * replay serves a recording file, or a directory of them, instead of the YouTube APIs.
+ */
+export function resolveRecordingOptions(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): RecordingOptions {
+  const recordPath = getCliFlag(argv, YOUTUBE_CLI_FLAGS.record) || env[YOUTUBE_ENV_VARS.record] || undefined;
+  const replayPath = getCliFlag(argv, YOUTUBE_CLI_FLAGS.replay) || env[YOUTUBE_ENV_VARS.replay] || undefined;
+  if (replayPath && resolveMockOptions(argv, env).enabled) {
+    throw new Error(`${YOUTUBE_CLI_FLAGS.replay} and ${YOUTUBE_CLI_FLAGS.mock} cannot be combined`);
+  }
+  return {
+    recordPath: recordPath ? path.resolve(recordPath) : undefined,
+    replayPath: replayPath ? path.resolve(replayPath) : undefined
+  };
+}
+
+// Mock and replay mode keep their disk cache and quota counters apart from the real ones
+function resolveStateDir(argv: string[], env: NodeJS.ProcessEnv): string {
+  const { configDir } = resolveAuthPaths(argv, env);
+  const offline = resolveMockOptions(argv, env).enabled || !!resolveRecordingOptions(argv, env).replayPath;
+  return offline ? path.join(configDir, 'mock') : configDir;
+}
+
+// Parses "endpoint=seconds" pairs, e.g. "youtube.search.list=60,analytics.historical=604800"
+function parseCacheTtls(value: string | undefined): Record<string, number> {
+  const ttls = { ...DEFAULT_CACHE_TTLS };
+  (value || '').split(',').map(pair => pair.trim()).filter(Boolean).forEach(pair => {
+    const [endpoint, seconds] = pair.split('=').map(part => part.trim());
+    const ttl = Number(seconds);
+    if (!endpoint || !Number.isFinite(ttl) || ttl < 0) {
+      throw new Error(`Invalid cache TTL "${pair}" in ${YOUTUBE_ENV_VARS.cacheTtls}. Expected endpoint=seconds`);
+    }
+    ttls[endpoint] = ttl;
+  });
+  return ttls;
+}
+
+/**
+ * Resolves the response cache from CLI flags (highest precedence) and environment variables.
+ * The cache is in-memory by default; "disk" persists it to cache/responses.json in the config directory.
+ */
+export function resolveResponseCacheOptions(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): ResponseCacheOptions {
+  const mode = getCliFlag(argv, YOUTUBE_CLI_FLAGS.cache) || env[YOUTUBE_ENV_VARS.cache] || 'memory';
+  if (!(CACHE_MODES as readonly string[]).includes(mode)) {
+    throw new Error(`Unknown cache mode "${mode}". Expected one of: ${CACHE_MODES.join(', ')}`);
+  }
+
+  return {
+    mode: mode as CacheMode,
+    ttls: parseCacheTtls(env[YOUTUBE_ENV_VARS.cacheTtls]),
+    filePath: env[YOUTUBE_ENV_VARS.cacheFile]
+      ? path.resolve(env[YOUTUBE_ENV_VARS.cacheFile]!)
+      : path.join(resolveStateDir(argv, env), 'cache', 'responses.json'),
+    maxEntries: CACHE_MAX_ENTRIES,
+    maxStaleSeconds: CACHE_MAX_STALE_SECONDS
+  };
+}
+
+function parseBudget(value: string | undefined, envVar: string, fallback: number): number {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const budget = Number(value);
+  if (!Number.isInteger(budget) || budget < 0) {
+    throw new Error(`Invalid quota budget "${value}" in ${envVar}. Expected a whole number of units (0 disables the limit)`);
+  }
+  return budget;
+}
+
+/**
+ * Resolves daily quota budgets from environment variables. The Data API budget defaults to
+ * Google's 10,000 units; the Analytics API budget is unlimited unless set.
+ */
+export function resolveQuotaTrackerOptions(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): QuotaTrackerOptions {
+  return {
+    budgets: {
+      data: parseBudget(env[YOUTUBE_ENV_VARS.quotaBudget], YOUTUBE_ENV_VARS.quotaBudget, DEFAULT_DATA_QUOTA_BUDGET),
+      analytics: parseBudget(env[YOUTUBE_ENV_VARS.analyticsQuotaBudget], YOUTUBE_ENV_VARS.analyticsQuotaBudget, 0)
+    },
+    filePath: env[YOUTUBE_ENV_VARS.quotaFile]
+      ? path.resolve(env[YOUTUBE_ENV_VARS.quotaFile]!)
+      : path.join(resolveStateDir(argv, env), 'quota.json')
+  };
+}
+
+function parseLimit(value: string | undefined, envVar: string, fallback: number): number {
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    throw new Error(`Invalid limit "${value}" in ${envVar}. Expected a non-negative number (0 disables the limit)`);
+  }
+  return limit;
+}
+
+/**
+ * Resolves request pacing from environment variables. The defaults stay well below the
+ * per-user rate limits that trigger userRateLimitExceeded.
+ */
+export function resolveRequestSchedulerOptions(env: NodeJS.ProcessEnv = process.env): RequestSchedulerOptions {
+  return {
+    maxConcurrency: Math.floor(parseLimit(env[YOUTUBE_ENV_VARS.maxConcurrency], YOUTUBE_ENV_VARS.maxConcurrency, DEFAULT_MAX_CONCURRENCY)),
+    requestsPerSecond: parseLimit(env[YOUTUBE_ENV_VARS.maxRequestsPerSecond], YOUTUBE_ENV_VARS.maxRequestsPerSecond, DEFAULT_MAX_REQUESTS_PER_SECOND)
+  };
+}
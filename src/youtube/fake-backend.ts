@@ -0,0 +1,531 @@
+import { readFileSync } from 'fs';
+import { youtube_v3, youtubeAnalytics_v2 } from 'googleapis';
+import { YouTubeBackend, YouTubeBackendFactory } from './backend.js';
+
+/**
+ * An error the fake returns for matching requests, e.g. to exercise quota or rate limit handling.
+ */
+export interface FakeErrorFixture {
+  // Endpoint as named by YouTubeClient, e.g. "youtube.videos.list" or "youtubeAnalytics.reports.query"
+  endpoint: string;
+  // Request params that trigger the error; a param matches when its value contains the given text
+  match?: Record<string, string>;
+  status: number;
+  reason: string;
+  message: string;
+  retryAfterSeconds?: number;
+}
+
+export interface MockModeOptions {
+  enabled: boolean;
+  // JSON fixture file; the built-in fixtures are used when unset
+  fixturesPath?: string;
+}
+
+export interface FakeFixtures {
+  // The first channel is the authenticated ("mine") channel; all of them are managed by the content owner
+  channels: youtube_v3.Schema$Channel[];
+  videos: youtube_v3.Schema$Video[];
+  playlists: youtube_v3.Schema$Playlist[];
+  // Video IDs per playlist; uploads playlists are derived from the videos' channels
+  playlistItems: Record<string, string[]>;
+  // Values of the insightTrafficSourceDetail dimension for YouTube search traffic
+  searchTerms: string[];
+  errors: FakeErrorFixture[];
+}
+
+type DataType = 'STRING' | 'INTEGER' | 'FLOAT';
+
+interface MetricSpec {
+  dataType: DataType;
+  // Range of one row's value for a single day
+  min: number;
+  max: number;
+  // Counts grow with the number of days in a row; averages and rates do not
+  additive?: boolean;
+}
+
+const METRICS: Record<string, MetricSpec> = {
+  views: { dataType: 'INTEGER', min: 40, max: 400, additive: true },
+  redViews: { dataType: 'INTEGER', min: 0, max: 20, additive: true },
+  estimatedMinutesWatched: { dataType: 'INTEGER', min: 80, max: 1200, additive: true },
+  estimatedRedMinutesWatched: { dataType: 'INTEGER', min: 0, max: 60, additive: true },
+  averageViewDuration: { dataType: 'INTEGER', min: 60, max: 420 },
+  averageViewPercentage: { dataType: 'FLOAT', min: 25, max: 65 },
+  subscribersGained: { dataType: 'INTEGER', min: 0, max: 15, additive: true },
+  subscribersLost: { dataType: 'INTEGER', min: 0, max: 4, additive: true },
+  likes: { dataType: 'INTEGER', min: 2, max: 40, additive: true },
+  dislikes: { dataType: 'INTEGER', min: 0, max: 3, additive: true },
+  comments: { dataType: 'INTEGER', min: 0, max: 10, additive: true },
+  shares: { dataType: 'INTEGER', min: 0, max: 12, additive: true },
+  videosAddedToPlaylists: { dataType: 'INTEGER', min: 0, max: 6, additive: true },
+  videosRemovedFromPlaylists: { dataType: 'INTEGER', min: 0, max: 2, additive: true },
+  viewerPercentage: { dataType: 'FLOAT', min: 1, max: 30 },
+  audienceWatchRatio: { dataType: 'FLOAT', min: 0.2, max: 1.1 },
+  relativeRetentionPerformance: { dataType: 'FLOAT', min: 0.3, max: 0.7 },
+  playlistStarts: { dataType: 'INTEGER', min: 0, max: 30, additive: true },
+  viewsPerPlaylistStart: { dataType: 'FLOAT', min: 1, max: 3 },
+  averageTimeInPlaylist: { dataType: 'FLOAT', min: 60, max: 600 },
+  cardImpressions: { dataType: 'INTEGER', min: 0, max: 200, additive: true },
+  cardClicks: { dataType: 'INTEGER', min: 0, max: 10, additive: true },
+  cardClickRate: { dataType: 'FLOAT', min: 0, max: 0.06 },
+  estimatedRevenue: { dataType: 'FLOAT', min: 0.5, max: 8, additive: true },
+  estimatedAdRevenue: { dataType: 'FLOAT', min: 0.4, max: 6, additive: true },
+  estimatedRedPartnerRevenue: { dataType: 'FLOAT', min: 0, max: 0.8, additive: true },
+  grossRevenue: { dataType: 'FLOAT', min: 0.6, max: 10, additive: true },
+  cpm: { dataType: 'FLOAT', min: 2, max: 12 },
+  playbackBasedCpm: { dataType: 'FLOAT', min: 2, max: 14 },
+  monetizedPlaybacks: { dataType: 'INTEGER', min: 20, max: 200, additive: true },
+  adImpressions: { dataType: 'INTEGER', min: 30, max: 400, additive: true }
+};
+
+// Dimension values that do not depend on the fixtures or the date range
+const STATIC_DIMENSIONS: Record<string, string[]> = {
+  ageGroup: ['age13-17', 'age18-24', 'age25-34', 'age35-44', 'age45-54', 'age55-64', 'age65-'],
+  gender: ['female', 'male', 'user_specified'],
+  country: ['US', 'IN', 'GB', 'DE', 'BR', 'CA', 'FR', 'JP', 'AU', 'MX'],
+  subscribedStatus: ['SUBSCRIBED', 'UNSUBSCRIBED'],
+  insightTrafficSourceType: ['YT_SEARCH', 'SUGGESTED_VIDEO', 'BROWSE_FEATURES', 'EXT_URL', 'PLAYLIST', 'YT_CHANNEL', 'NOTIFICATION', 'SHORTS', 'NO_LINK_OTHER'],
+  deviceType: ['MOBILE', 'DESKTOP', 'TV', 'TABLET'],
+  operatingSystem: ['ANDROID', 'IOS', 'WINDOWS', 'MACINTOSH', 'LINUX'],
+  sharingService: ['WHATS_APP', 'FACEBOOK', 'TWITTER', 'REDDIT', 'COPY_PASTE', 'EMAIL'],
+  adType: ['auctionInstream', 'auctionBumperInstream', 'auctionDisplay', 'reservedInstream'],
+  liveOrOnDemand: ['LIVE', 'ON_DEMAND']
+};
+
+// YouTube withholds demographics when too few viewers could be identified
+const DEMOGRAPHIC_DIMENSIONS = new Set(['ageGroup', 'gender']);
+const DEMOGRAPHICS_MIN_VIEWS = 100;
+
+// Longest date range the fake expands into daily rows
+const MAX_REPORT_DAYS = 3660;
+
+/**
+ * Shaped like the errors googleapis throws (GaxiosError), so retries and error mapping
+ * behave as they do against the real APIs.
+ */
+export class FakeApiError extends Error {
+  readonly code: number;
+  readonly status: number;
+  readonly errors: { message: string; domain: string; reason: string }[];
+  readonly response: { status: number; headers: Record<string, string>; data: unknown };
+
+  constructor(status: number, reason: string, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'FakeApiError';
+    this.code = status;
+    this.status = status;
+    this.errors = [{ message, domain: 'youtube.fake', reason }];
+    this.response = {
+      status,
+      headers: retryAfterSeconds !== undefined ? { 'retry-after': String(retryAfterSeconds) } : {},
+      data: { error: { code: status, message, errors: this.errors } }
+    };
+  }
+}
+
+// FNV-1a, mapped to [0, 1): the same request always produces the same numbers
+function random(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+function etag(value: unknown): string {
+  return Math.floor(random(JSON.stringify(value)) * 0xffffffff).toString(36);
+}
+
+function toList(value: string | string[] | null | undefined): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).flatMap(item => item.split(',')).map(item => item.trim()).filter(Boolean);
+}
+
+// Returns only the requested parts of a resource, like the real API
+function pickParts<T extends { kind?: string | null; etag?: string | null; id?: unknown }>(resource: T, part: string | string[] | undefined): T {
+  const parts = new Set(toList(part));
+  return Object.fromEntries(
+    Object.entries(resource).filter(([key]) => key === 'kind' || key === 'etag' || key === 'id' || parts.has(key))
+  ) as T;
+}
+
+// Page tokens are offsets into the full result list
+function page<T>(items: T[], maxResults: number | undefined, pageToken: string | undefined, fallback: number) {
+  const limit = Math.max(0, Math.min(maxResults ?? fallback, 50));
+  const offset = pageToken ? Number(Buffer.from(pageToken, 'base64url').toString('utf8').replace(/^offset:/, '')) : 0;
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw new FakeApiError(400, 'invalidPageToken', 'The request specifies an invalid page token.');
+  }
+  const next = offset + limit;
+  return {
+    items: items.slice(offset, next),
+    pageInfo: { totalResults: items.length, resultsPerPage: limit },
+    nextPageToken: next < items.length ? Buffer.from(`offset:${next}`).toString('base64url') : undefined
+  };
+}
+
+function listResponse<T>(kind: string, items: T[], paging?: { pageInfo: object; nextPageToken?: string }) {
+  return {
+    data: {
+      kind,
+      etag: etag(items),
+      ...(paging?.nextPageToken ? { nextPageToken: paging.nextPageToken } : {}),
+      pageInfo: paging?.pageInfo ?? { totalResults: items.length, resultsPerPage: items.length },
+      items
+    }
+  };
+}
+
+function eachDay(startDate: string, endDate: string): string[] {
+  const days: string[] = [];
+  const date = new Date(`${startDate}T00:00:00Z`);
+  const end = new Date(`${endDate}T00:00:00Z`);
+  while (date <= end && days.length < MAX_REPORT_DAYS) {
+    days.push(date.toISOString().slice(0, 10));
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return days;
+}
+
+// Parses "video==abc;country==US,DE" into { video: ['abc'], country: ['US', 'DE'] }
+function parseFilters(filters: string | undefined | null): Record<string, string[]> {
+  return Object.fromEntries(
+    (filters || '').split(';').filter(Boolean).map(filter => {
+      const [name, values = ''] = filter.split('==');
+      return [name.trim(), toList(values)];
+    })
+  );
+}
+
+function roundMetric(value: number, dataType: DataType): number {
+  return dataType === 'INTEGER' ? Math.round(value) : Math.round(value * 1000) / 1000;
+}
+
+/**
+ * Serves the Data and Analytics API calls YouTubeClient makes from in-memory fixtures.
+ * List responses honour part, paging and the usual selectors; reports are generated
+ * deterministically from the request, so the same query always returns the same rows.
+ */
+export function createFakeBackend(fixtures: FakeFixtures): YouTubeBackendFactory {
+  const myChannel = fixtures.channels[0];
+  const uploadsOf = (channel: youtube_v3.Schema$Channel) => channel.contentDetails?.relatedPlaylists?.uploads;
+
+  const channelVideos = (channelId: string) => fixtures.videos
+    .filter(video => video.snippet?.channelId === channelId)
+    .sort((a, b) => (b.snippet?.publishedAt || '').localeCompare(a.snippet?.publishedAt || ''));
+
+  const playlistVideoIds = (playlistId: string): string[] | undefined => {
+    const channel = fixtures.channels.find(channel => uploadsOf(channel) === playlistId);
+    if (channel) {
+      return channelVideos(channel.id!).map(video => video.id!);
+    }
+    return fixtures.playlistItems[playlistId];
+  };
+
+  const failIfMatched = (endpoint: string, params: object) => {
+    const error = fixtures.errors.find(candidate => candidate.endpoint === endpoint &&
+      Object.entries(candidate.match ?? {}).every(([name, text]) => {
+        const value = (params as Record<string, unknown>)[name];
+        return value !== undefined && value !== null && String(value).includes(text);
+      }));
+    if (error) {
+      throw new FakeApiError(error.status, error.reason, error.message, error.retryAfterSeconds);
+    }
+  };
+
+  const channelsList = (params: youtube_v3.Params$Resource$Channels$List) => {
+    let channels: youtube_v3.Schema$Channel[] = [];
+    if (params.mine) {
+      channels = myChannel ? [myChannel] : [];
+    } else if (params.id) {
+      const ids = toList(params.id);
+      channels = fixtures.channels.filter(channel => ids.includes(channel.id!));
+    } else if (params.managedByMe) {
+      channels = fixtures.channels;
+    } else {
+      throw new FakeApiError(400, 'missingRequiredParameter', 'No filter selected. Expected one of: mine, id, managedByMe, forHandle, forUsername');
+    }
+    const paging = page(channels, params.maxResults ?? undefined, params.pageToken ?? undefined, 5);
+    return listResponse('youtube#channelListResponse', paging.items.map(channel => pickParts(channel, params.part)), paging);
+  };
+
+  const playlistsList = (params: youtube_v3.Params$Resource$Playlists$List) => {
+    let playlists = fixtures.playlists;
+    if (params.id) {
+      const ids = toList(params.id);
+      playlists = playlists.filter(playlist => ids.includes(playlist.id!));
+    } else {
+      const channelId = params.mine ? myChannel?.id : params.channelId;
+      playlists = playlists.filter(playlist => playlist.snippet?.channelId === channelId);
+    }
+    const withCounts = playlists.map(playlist => ({
+      ...playlist,
+      contentDetails: { itemCount: fixtures.playlistItems[playlist.id!]?.length ?? 0 }
+    }));
+    const paging = page(withCounts, params.maxResults ?? undefined, params.pageToken ?? undefined, 5);
+    return listResponse('youtube#playlistListResponse', paging.items.map(playlist => pickParts(playlist, params.part)), paging);
+  };
+
+  const playlistItemsList = (params: youtube_v3.Params$Resource$Playlistitems$List) => {
+    const playlistId = params.playlistId || '';
+    const videoIds = playlistVideoIds(playlistId);
+    if (!videoIds) {
+      throw new FakeApiError(404, 'playlistNotFound', 'The playlist identified with the request\'s <code>playlistId</code> parameter cannot be found.');
+    }
+    const items: youtube_v3.Schema$PlaylistItem[] = videoIds.flatMap((videoId, position) => {
+      const video = fixtures.videos.find(candidate => candidate.id === videoId);
+      if (!video) {
+        return [];
+      }
+      return [{
+        kind: 'youtube#playlistItem',
+        etag: etag([playlistId, videoId]),
+        id: Buffer.from(`${playlistId}.${videoId}`).toString('base64url'),
+        snippet: {
+          publishedAt: video.snippet?.publishedAt,
+          channelId: video.snippet?.channelId,
+          title: video.snippet?.title,
+          description: video.snippet?.description,
+          thumbnails: video.snippet?.thumbnails,
+          channelTitle: video.snippet?.channelTitle,
+          playlistId,
+          position,
+          resourceId: { kind: 'youtube#video', videoId }
+        },
+        contentDetails: { videoId, videoPublishedAt: video.snippet?.publishedAt },
+        status: { privacyStatus: video.status?.privacyStatus }
+      }];
+    });
+    const paging = page(items, params.maxResults ?? undefined, params.pageToken ?? undefined, 5);
+    return listResponse('youtube#playlistItemListResponse', paging.items.map(item => pickParts(item, params.part)), paging);
+  };
+
+  const videosList = (params: youtube_v3.Params$Resource$Videos$List) => {
+    if (!params.id) {
+      throw new FakeApiError(400, 'missingRequiredParameter', 'No filter selected. Expected one of: id, myRating, chart');
+    }
+    const ids = toList(params.id);
+    if (ids.length > 50) {
+      throw new FakeApiError(400, 'invalidParameter', 'The request specifies more than 50 video IDs.');
+    }
+    // Unknown and deleted videos are silently missing from the response
+    const videos = fixtures.videos.filter(video => ids.includes(video.id!));
+    return listResponse('youtube#videoListResponse', videos.map(video => pickParts(video, params.part)));
+  };
+
+  const searchList = (params: youtube_v3.Params$Resource$Search$List) => {
+    const words = (params.q || '').toLowerCase().split(/\s+/).filter(Boolean);
+    const channelId = params.forMine ? myChannel?.id : params.channelId;
+    const matches = fixtures.videos.filter(video => {
+      const snippet = video.snippet ?? {};
+      const text = [snippet.title, snippet.description, ...(snippet.tags ?? [])].join(' ').toLowerCase();
+      const publishedAt = snippet.publishedAt || '';
+      // Search never returns unlisted or private videos, except the caller's own with forMine
+      return (params.forMine || video.status?.privacyStatus === 'public') &&
+        words.every(word => text.includes(word)) &&
+        (!channelId || snippet.channelId === channelId) &&
+        (!params.publishedAfter || publishedAt >= params.publishedAfter) &&
+        (!params.publishedBefore || publishedAt < params.publishedBefore);
+    });
+
+    const views = (video: youtube_v3.Schema$Video) => Number(video.statistics?.viewCount || 0);
+    const likes = (video: youtube_v3.Schema$Video) => Number(video.statistics?.likeCount || 0);
+    const orders: Record<string, (a: youtube_v3.Schema$Video, b: youtube_v3.Schema$Video) => number> = {
+      date: (a, b) => (b.snippet?.publishedAt || '').localeCompare(a.snippet?.publishedAt || ''),
+      viewCount: (a, b) => views(b) - views(a),
+      rating: (a, b) => likes(b) - likes(a),
+      title: (a, b) => (a.snippet?.title || '').localeCompare(b.snippet?.title || '')
+    };
+    const sorted = orders[params.order || ''] ? [...matches].sort(orders[params.order!]) : matches;
+
+    const paging = page(sorted, params.maxResults ?? undefined, params.pageToken ?? undefined, 5);
+    const items: youtube_v3.Schema$SearchResult[] = paging.items.map(video => pickParts({
+      kind: 'youtube#searchResult',
+      etag: etag(['search', video.id]),
+      id: { kind: 'youtube#video', videoId: video.id },
+      snippet: {
+        publishedAt: video.snippet?.publishedAt,
+        channelId: video.snippet?.channelId,
+        title: video.snippet?.title,
+        description: video.snippet?.description,
+        thumbnails: video.snippet?.thumbnails,
+        channelTitle: video.snippet?.channelTitle,
+        liveBroadcastContent: video.snippet?.liveBroadcastContent,
+        publishTime: video.snippet?.publishedAt
+      }
+    }, params.part));
+    return { data: { ...listResponse('youtube#searchListResponse', items, paging).data, regionCode: 'US' } };
+  };
+
+  const dimensionValues = (dimension: string, channelId: string, days: string[], filters: Record<string, string[]>): string[] | undefined => {
+    const restrict = (values: string[]) => filters[dimension] ? values.filter(value => filters[dimension].includes(value)) : values;
+    switch (dimension) {
+      case 'day':
+        return days;
+      case 'month':
+        return [...new Set(days.map(day => day.slice(0, 7)))];
+      case 'video':
+        return restrict(channelVideos(channelId).filter(video => video.status?.privacyStatus === 'public').map(video => video.id!));
+      case 'playlist':
+        return restrict(fixtures.playlists.filter(playlist => playlist.snippet?.channelId === channelId).map(playlist => playlist.id!));
+      case 'insightTrafficSourceDetail':
+        return fixtures.searchTerms;
+      case 'elapsedVideoTimeRatio':
+        return Array.from({ length: 100 }, (_, i) => ((i + 1) / 100).toFixed(2));
+      default:
+        return STATIC_DIMENSIONS[dimension] && restrict(STATIC_DIMENSIONS[dimension]);
+    }
+  };
+
+  const reportsQuery = (params: youtubeAnalytics_v2.Params$Resource$Reports$Query) => {
+    const { startDate, endDate, ids } = params;
+    if (!startDate || !endDate || !ids || !params.metrics) {
+      throw new FakeApiError(400, 'required', 'Required');
+    }
+    if (startDate > endDate) {
+      throw new FakeApiError(400, 'badRequest', 'The query is not supported. Check the documentation for supported queries.');
+    }
+
+    const filters = parseFilters(params.filters);
+    let channelId: string | undefined;
+    if (ids === 'channel==MINE') {
+      channelId = myChannel?.id ?? undefined;
+    } else if (ids.startsWith('channel==')) {
+      channelId = ids.slice('channel=='.length);
+    } else if (ids.startsWith('contentOwner==')) {
+      channelId = filters.channel?.[0] ?? myChannel?.id ?? undefined;
+    }
+    if (!channelId || !fixtures.channels.some(channel => channel.id === channelId)) {
+      throw new FakeApiError(403, 'forbidden', 'Forbidden');
+    }
+
+    const metrics = toList(params.metrics);
+    const unknownMetric = metrics.find(metric => !METRICS[metric]);
+    if (unknownMetric) {
+      throw new FakeApiError(400, 'badRequest', `Unknown identifier (${unknownMetric}) given in field parameters.metrics.`);
+    }
+
+    const days = eachDay(startDate, endDate);
+    const dimensions = toList(params.dimensions);
+    const valueLists = dimensions.map(dimension => dimensionValues(dimension, channelId!, days, filters));
+    if (valueLists.some(values => !values)) {
+      throw new FakeApiError(400, 'badRequest', 'The query is not supported. Check the documentation for supported queries.');
+    }
+
+    const columnHeaders: youtubeAnalytics_v2.Schema$ResultTableColumnHeader[] = [
+      ...dimensions.map(name => ({ name, columnType: 'DIMENSION', dataType: name === 'elapsedVideoTimeRatio' ? 'FLOAT' : 'STRING' })),
+      ...metrics.map(name => ({ name, columnType: 'METRIC', dataType: METRICS[name].dataType }))
+    ];
+
+    // Filtering on a video without views, or on someone else's video, returns no rows
+    const videoId = filters.video?.[0];
+    const video = videoId ? fixtures.videos.find(candidate => candidate.id === videoId && candidate.snippet?.channelId === channelId) : undefined;
+    const videoViews = video ? Number(video.statistics?.viewCount || 0) : undefined;
+    const withheld = (videoId && !video) ||
+      (dimensions.some(dimension => DEMOGRAPHIC_DIMENSIONS.has(dimension)) && videoViews !== undefined && videoViews < DEMOGRAPHICS_MIN_VIEWS);
+
+    let combinations: string[][] = [[]];
+    valueLists.forEach(values => {
+      combinations = combinations.flatMap(prefix => values!.map(value => [...prefix, value]));
+    });
+    if (withheld || days.length === 0) {
+      combinations = [];
+    }
+
+    // Daily rows depend only on their day, so overlapping ranges agree; other rows vary with the range
+    const byDay = dimensions.includes('day') || dimensions.includes('month');
+    const seed = `${channelId}|${params.filters || ''}${byDay ? '' : `|${startDate}|${endDate}`}`;
+    const dayCount = byDay ? 1 : days.length;
+    // Days before the channel was created report zero for every metric
+    const createdOn = fixtures.channels.find(channel => channel.id === channelId)?.snippet?.publishedAt?.slice(0, 10) ?? '';
+    let rows: (string | number)[][] = combinations.map((values, index) => {
+      // Earlier dimension values are the more popular ones
+      const weight = dimensions.length > 0 && !dimensions.includes('day') ? 1 / (1 + index * 0.35) : 1;
+      const rowDays = dimensions.includes('month') ? days.filter(day => day.startsWith(values[dimensions.indexOf('month')])).length : dayCount;
+      const beforeCreation = dimensions.includes('day') && values[dimensions.indexOf('day')] < createdOn;
+      const metricValues = metrics.map(metric => {
+        const spec = METRICS[metric];
+        if (beforeCreation) {
+          return 0;
+        }
+        const noise = random(`${seed}|${values.join('|')}|${metric}`);
+        if (metric === 'audienceWatchRatio' && dimensions.includes('elapsedVideoTimeRatio')) {
+          const ratio = Number(values[dimensions.indexOf('elapsedVideoTimeRatio')]);
+          return roundMetric(Math.max(0.05, 1 - 0.7 * Math.pow(ratio, 0.6) + (noise - 0.5) * 0.05), 'FLOAT');
+        }
+        const value = spec.min + noise * (spec.max - spec.min);
+        return roundMetric(spec.additive ? value * rowDays * weight : value, spec.dataType);
+      });
+      return [...values.map((value, i) => columnHeaders[i].dataType === 'FLOAT' ? Number(value) : value), ...metricValues];
+    });
+
+    // Shares of the whole add up to 100 across the rows
+    const percentageIndex = dimensions.length + metrics.indexOf('viewerPercentage');
+    if (metrics.includes('viewerPercentage') && rows.length > 0) {
+      const total = rows.reduce((sum, row) => sum + Number(row[percentageIndex]), 0);
+      rows.forEach(row => { row[percentageIndex] = roundMetric(Number(row[percentageIndex]) / total * 100, 'FLOAT'); });
+    }
+
+    toList(params.sort).reverse().forEach(field => {
+      const descending = field.startsWith('-');
+      const column = columnHeaders.findIndex(header => header.name === field.replace(/^-/, ''));
+      if (column === -1) {
+        throw new FakeApiError(400, 'badRequest', `Unknown identifier (${field}) given in field parameters.sort.`);
+      }
+      rows = [...rows].sort((a, b) => {
+        const order = typeof a[column] === 'number' ? Number(a[column]) - Number(b[column]) : String(a[column]).localeCompare(String(b[column]));
+        return descending ? -order : order;
+      });
+    });
+    if (params.maxResults) {
+      rows = rows.slice(params.startIndex ? params.startIndex - 1 : 0, (params.startIndex ? params.startIndex - 1 : 0) + params.maxResults);
+    }
+
+    return { data: { kind: 'youtubeAnalytics#resultTable', columnHeaders, rows } };
+  };
+
+  // Every call checks the fixture errors and the caller's signal before answering
+  const serve = <P extends object, R>(endpoint: string, handler: (params: P) => { data: R }, signal?: AbortSignal) =>
+    async (params: P): Promise<{ data: R }> => {
+      signal?.throwIfAborted();
+      failIfMatched(endpoint, params);
+      // Copy, so callers cannot modify the fixtures through the response
+      return structuredClone(handler(params));
+    };
+
+  return (signal?: AbortSignal): YouTubeBackend => ({
+    youtube: {
+      channels: { list: serve('youtube.channels.list', channelsList, signal) },
+      playlists: { list: serve('youtube.playlists.list', playlistsList, signal) },
+      playlistItems: { list: serve('youtube.playlistItems.list', playlistItemsList, signal) },
+      videos: { list: serve('youtube.videos.list', videosList, signal) },
+      search: { list: serve('youtube.search.list', searchList, signal) }
+    },
+    youtubeAnalytics: {
+      reports: { query: serve('youtubeAnalytics.reports.query', reportsQuery, signal) }
+    }
+  });
+}
+
+/**
+ * Reads fixtures from a JSON file. Missing sections fall back to empty lists, so a file
+ * only needs the resources a scenario uses.
+ */
+export function loadFakeFixtures(filePath: string): FakeFixtures {
+  const parsed = JSON.parse(readFileSync(filePath, 'utf8')) as Partial<FakeFixtures>;
+  if (!Array.isArray(parsed.channels) || parsed.channels.length === 0) {
+    throw new Error(`Fixture file ${filePath} must define at least one channel`);
+  }
+  return {
+    channels: parsed.channels,
+    videos: parsed.videos ?? [],
+    playlists: parsed.playlists ?? [],
+    playlistItems: parsed.playlistItems ?? {},
+    searchTerms: parsed.searchTerms ?? [],
+    errors: parsed.errors ?? []
+  };
+}
@@ -0,0 +1,313 @@
+import { youtube_v3 } from 'googleapis';
+import { FakeFixtures } from './fake-backend.js';
+
+const MAIN_CHANNEL_ID = 'UCm0ckDevChannel00000001';
+const SECOND_CHANNEL_ID = 'UCm0ckDevChannel00000002';
+const MAIN_CHANNEL_TITLE = 'Mock Dev Kitchen';
+const SECOND_CHANNEL_TITLE = 'Mock Dev Shorts';
+
+function channelThumbnails(name: string): youtube_v3.Schema$ThumbnailDetails {
+  const url = `https://yt3.ggpht.com/mock-${name}`;
+  return {
+    default: { url: `${url}=s88`, width: 88, height: 88 },
+    medium: { url: `${url}=s240`, width: 240, height: 240 },
+    high: { url: `${url}=s800`, width: 800, height: 800 }
+  };
+}
+
+function videoThumbnails(videoId: string): youtube_v3.Schema$ThumbnailDetails {
+  const url = `https://i.ytimg.com/vi/${videoId}`;
+  return {
+    default: { url: `${url}/default.jpg`, width: 120, height: 90 },
+    medium: { url: `${url}/mqdefault.jpg`, width: 320, height: 180 },
+    high: { url: `${url}/hqdefault.jpg`, width: 480, height: 360 }
+  };
+}
+
+interface VideoSeed {
+  id: string;
+  channelId?: string;
+  title: string;
+  description: string;
+  publishedAt: string;
+  duration: string;
+  views: number;
+  privacyStatus?: string;
+  publishAt?: string;
+  tags?: string[];
+  liveBroadcastContent?: string;
+  regionBlocked?: string[];
+}
+
+function video(seed: VideoSeed): youtube_v3.Schema$Video {
+  const channelId = seed.channelId ?? MAIN_CHANNEL_ID;
+  return {
+    kind: 'youtube#video',
+    etag: `mock-etag-${seed.id}`,
+    id: seed.id,
+    snippet: {
+      publishedAt: seed.publishedAt,
+      channelId,
+      title: seed.title,
+      description: seed.description,
+      thumbnails: videoThumbnails(seed.id),
+      channelTitle: channelId === MAIN_CHANNEL_ID ? MAIN_CHANNEL_TITLE : SECOND_CHANNEL_TITLE,
+      tags: seed.tags,
+      categoryId: '26',
+      liveBroadcastContent: seed.liveBroadcastContent ?? 'none',
+      defaultLanguage: 'en',
+      defaultAudioLanguage: 'en'
+    },
+    contentDetails: {
+      duration: seed.duration,
+      dimension: '2d',
+      definition: 'hd',
+      caption: 'true',
+      licensedContent: true,
+      ...(seed.regionBlocked ? { regionRestriction: { blocked: seed.regionBlocked } } : {}),
+      projection: 'rectangular'
+    },
+    status: {
+      uploadStatus: 'processed',
+      privacyStatus: seed.privacyStatus ?? 'public',
+      ...(seed.publishAt ? { publishAt: seed.publishAt } : {}),
+      license: 'youtube',
+      embeddable: true,
+      publicStatsViewable: true,
+      madeForKids: false
+    },
+    statistics: {
+      viewCount: String(seed.views),
+      likeCount: String(Math.round(seed.views * 0.041)),
+      favoriteCount: '0',
+      commentCount: String(Math.round(seed.views * 0.0045))
+    }
+  };
+}
+
+/**
+ * The fixtures --mock serves unless YOUTUBE_MCP_MOCK_FIXTURES points to a JSON file.
+ * Two channels, uploads in every privacy state, playlists and a few error triggers:
+ * video ID "mockQuota00" exhausts the quota, video ID "mockRateLim" and the search query
+ * "rateLimitDemo" are rate limited and video ID "mockOutage0" hits a backend outage in
+ * Analytics reports.
+ */
+export const DEFAULT_FAKE_FIXTURES: FakeFixtures = {
+  channels: [
+    {
+      kind: 'youtube#channel',
+      etag: 'mock-etag-channel-1',
+      id: MAIN_CHANNEL_ID,
+      snippet: {
+        title: MAIN_CHANNEL_TITLE,
+        description: 'Weeknight recipes and kitchen experiments. A fixture channel for offline development.',
+        customUrl: '@mockdevkitchen',
+        publishedAt: '2019-03-14T17:02:11Z',
+        thumbnails: channelThumbnails('kitchen'),
+        country: 'US'
+      },
+      contentDetails: { relatedPlaylists: { likes: '', uploads: 'UUm0ckDevChannel00000001' } },
+      statistics: { viewCount: '1843270', subscriberCount: '25400', hiddenSubscriberCount: false, videoCount: '9' }
+    },
+    {
+      kind: 'youtube#channel',
+      etag: 'mock-etag-channel-2',
+      id: SECOND_CHANNEL_ID,
+      snippet: {
+        title: SECOND_CHANNEL_TITLE,
+        description: 'Sixty-second cooking tips.',
+        customUrl: '@mockdevshorts',
+        publishedAt: '2022-08-01T09:30:00Z',
+        thumbnails: channelThumbnails('shorts'),
+        country: 'GB'
+      },
+      contentDetails: { relatedPlaylists: { likes: '', uploads: 'UUm0ckDevChannel00000002' } },
+      statistics: { viewCount: '96110', subscriberCount: '1200', hiddenSubscriberCount: false, videoCount: '2' }
+    }
+  ],
+  videos: [
+    video({
+      id: 'mockVid0001',
+      title: 'Sourdough for Beginners: Starter to First Loaf',
+      description: 'Everything you need for your first sourdough loaf, from feeding a starter to scoring.',
+      publishedAt: '2025-09-12T15:00:00Z',
+      duration: 'PT18M42S',
+      views: 48210,
+      tags: ['sourdough', 'bread', 'baking']
+    }),
+    video({
+      id: 'mockVid0002',
+      title: '5 Knife Skills Every Home Cook Needs',
+      description: 'Dicing, julienne, chiffonade and more, with a cheap chef\'s knife.',
+      publishedAt: '2025-08-29T15:00:00Z',
+      duration: 'PT11M05S',
+      views: 132870,
+      tags: ['knife skills', 'basics']
+    }),
+    video({
+      id: 'mockVid0003',
+      title: 'Live: Sunday Meal Prep Q&A',
+      description: 'Answering your meal prep questions while we cook for the week.',
+      publishedAt: '2025-08-17T18:00:00Z',
+      duration: 'PT1H32M10S',
+      views: 9870,
+      tags: ['meal prep', 'live']
+    }),
+    video({
+      id: 'mockVid0004',
+      title: 'One-Pan Lemon Chicken',
+      description: 'A 30 minute dinner with one pan and six ingredients.',
+      publishedAt: '2025-08-01T15:00:00Z',
+      duration: 'PT9M58S',
+      views: 76540,
+      tags: ['chicken', 'dinner', 'one pan'],
+      regionBlocked: ['DE']
+    }),
+    video({
+      id: 'mockVid0005',
+      title: 'Members Preview: Croissant Lamination',
+      description: 'Unlisted preview for channel members.',
+      publishedAt: '2025-07-20T12:00:00Z',
+      duration: 'PT24M30S',
+      views: 1320,
+      privacyStatus: 'unlisted',
+      tags: ['croissant', 'baking']
+    }),
+    video({
+      id: 'mockVid0006',
+      title: 'Sourdough Troubleshooting (draft)',
+      description: 'Work in progress.',
+      publishedAt: '2025-07-02T10:00:00Z',
+      duration: 'PT14M12S',
+      views: 0,
+      privacyStatus: 'private'
+    }),
+    video({
+      id: 'mockVid0007',
+      title: 'Holiday Cookie Marathon',
+      description: 'Twelve cookies, one weekend. Premieres in December.',
+      publishedAt: '2025-06-15T10:00:00Z',
+      duration: 'PT22M00S',
+      views: 0,
+      privacyStatus: 'private',
+      publishAt: '2030-12-01T16:00:00Z',
+      tags: ['cookies', 'holiday']
+    }),
+    video({
+      id: 'mockLowView',
+      title: 'Testing a New Camera Setup',
+      description: 'Too few views for demographics, which YouTube withholds.',
+      publishedAt: '2025-05-30T08:00:00Z',
+      duration: 'PT2M15S',
+      views: 37
+    }),
+    video({
+      id: 'mockVid0009',
+      title: 'Why My Bread Was Dense (and How I Fixed It)',
+      description: 'Hydration, proofing and oven spring explained.',
+      publishedAt: '2024-11-08T15:00:00Z',
+      duration: 'PT16M20S',
+      views: 201450,
+      tags: ['sourdough', 'bread', 'troubleshooting']
+    }),
+    video({
+      id: 'mockShort01',
+      channelId: SECOND_CHANNEL_ID,
+      title: 'Peel Garlic in 10 Seconds #shorts',
+      description: 'The jar trick.',
+      publishedAt: '2025-09-01T07:00:00Z',
+      duration: 'PT34S',
+      views: 61200,
+      tags: ['shorts', 'garlic']
+    }),
+    video({
+      id: 'mockShort02',
+      channelId: SECOND_CHANNEL_ID,
+      title: 'Crispy Rice Hack #shorts',
+      description: 'Leftover rice, one pan.',
+      publishedAt: '2025-08-20T07:00:00Z',
+      duration: 'PT48S',
+      views: 34910,
+      tags: ['shorts', 'rice']
+    })
+  ],
+  playlists: [
+    {
+      kind: 'youtube#playlist',
+      etag: 'mock-etag-playlist-1',
+      id: 'PLm0ckBread000000000000000000000001',
+      snippet: {
+        publishedAt: '2024-11-08T16:00:00Z',
+        channelId: MAIN_CHANNEL_ID,
+        title: 'Bread Baking',
+        description: 'From starter to loaf.',
+        thumbnails: videoThumbnails('mockVid0001'),
+        channelTitle: MAIN_CHANNEL_TITLE
+      }
+    },
+    {
+      kind: 'youtube#playlist',
+      etag: 'mock-etag-playlist-2',
+      id: 'PLm0ckWeeknight00000000000000000002',
+      snippet: {
+        publishedAt: '2025-08-01T16:00:00Z',
+        channelId: MAIN_CHANNEL_ID,
+        title: 'Weeknight Dinners',
+        description: 'Fast dinners for busy evenings.',
+        thumbnails: videoThumbnails('mockVid0004'),
+        channelTitle: MAIN_CHANNEL_TITLE
+      }
+    },
+    {
+      kind: 'youtube#playlist',
+      etag: 'mock-etag-playlist-3',
+      id: 'PLm0ckShorts0000000000000000000003',
+      snippet: {
+        publishedAt: '2025-09-01T08:00:00Z',
+        channelId: SECOND_CHANNEL_ID,
+        title: 'Kitchen Hacks',
+        description: 'Every short in one place.',
+        thumbnails: videoThumbnails('mockShort01'),
+        channelTitle: SECOND_CHANNEL_TITLE
+      }
+    }
+  ],
+  playlistItems: {
+    PLm0ckBread000000000000000000000001: ['mockVid0009', 'mockVid0001'],
+    PLm0ckWeeknight00000000000000000002: ['mockVid0004', 'mockVid0002'],
+    PLm0ckShorts0000000000000000000003: ['mockShort01', 'mockShort02']
+  },
+  searchTerms: ['sourdough starter', 'how to make sourdough', 'knife skills', 'lemon chicken recipe', 'dense bread fix', 'meal prep ideas'],
+  errors: [
+    {
+      endpoint: 'youtube.videos.list',
+      match: { id: 'mockQuota00' },
+      status: 403,
+      reason: 'quotaExceeded',
+      message: 'The request cannot be completed because you have exceeded your <a href="/youtube/v3/getting-started#quota">quota</a>.'
+    },
+    {
+      endpoint: 'youtube.videos.list',
+      match: { id: 'mockRateLim' },
+      status: 429,
+      reason: 'rateLimitExceeded',
+      message: 'The request cannot be completed because you have exceeded your rate limit.',
+      retryAfterSeconds: 1
+    },
+    {
+      endpoint: 'youtube.search.list',
+      match: { q: 'rateLimitDemo' },
+      status: 429,
+      reason: 'rateLimitExceeded',
+      message: 'The request cannot be completed because you have exceeded your rate limit.',
+      retryAfterSeconds: 1
+    },
+    {
+      endpoint: 'youtubeAnalytics.reports.query',
+      match: { filters: 'video==mockOutage0' },
+      status: 503,
+      reason: 'backendError',
+      message: 'The service is currently unavailable.'
+    }
+  ]
+};
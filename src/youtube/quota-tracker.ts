@@ -0,0 +1,186 @@
+import { mkdirSync, readFileSync } from 'fs';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createLogger } from '../utils/logger.js';
+import { QuotaBudgetExceededError } from './types.js';
+
+const log = createLogger('quota');
+
+export type QuotaApi = 'data' | 'analytics';
+
+// Unit cost per request. Data API costs follow Google's quota calculator; the Analytics API
+// has its own quota that counts queries, so every report is one unit of the analytics budget.
+export const QUOTA_COSTS: Record<string, { api: QuotaApi; units: number }> = {
+  'youtube.channels.list': { api: 'data', units: 1 },
+  'youtube.playlists.list': { api: 'data', units: 1 },
+  'youtube.playlistItems.list': { api: 'data', units: 1 },
+  'youtube.videos.list': { api: 'data', units: 1 },
+  'youtube.search.list': { api: 'data', units: 100 },
+  'youtubeAnalytics.reports.query': { api: 'analytics', units: 1 }
+};
+
+const DEFAULT_COST = { api: 'data' as QuotaApi, units: 1 };
+// Google resets quotas at midnight Pacific time
+const QUOTA_TIME_ZONE = 'America/Los_Angeles';
+const SAVE_DELAY_MS = 500;
+
+export interface QuotaTrackerOptions {
+  // Daily unit budgets; 0 disables enforcement for that API
+  budgets: Record<QuotaApi, number>;
+  filePath: string;
+}
+
+interface UsageCounter {
+  calls: number;
+  units: number;
+}
+
+interface QuotaFile {
+  date: string;
+  used: Record<QuotaApi, number>;
+  byEndpoint: Record<string, UsageCounter>;
+  byTool: Record<string, UsageCounter>;
+}
+
+export interface QuotaUsage extends QuotaFile {
+  [key: string]: unknown;
+  budgets: Record<QuotaApi, number>;
+  remaining: Record<QuotaApi, number | null>;
+  resetsAt: string;
+}
+
+function pacificParts(date: Date): Record<string, number> {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: QUOTA_TIME_ZONE,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  return Object.fromEntries(parts.filter(part => part.type !== 'literal').map(part => [part.type, Number(part.value)]));
+}
+
+// Quota day (YYYY-MM-DD) in Pacific time
+export function getQuotaDay(now: Date = new Date()): string {
+  const { year, month, day } = pacificParts(now);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Next Pacific midnight (off by an hour on daylight saving change days)
+function getNextReset(now: Date = new Date()): Date {
+  const { hour, minute, second } = pacificParts(now);
+  const elapsedMs = ((hour * 60 + minute) * 60 + second) * 1000;
+  return new Date(Math.floor(now.getTime() / 1000) * 1000 - elapsedMs + 24 * 60 * 60 * 1000);
+}
+
+function emptyUsage(date: string): QuotaFile {
+  return { date, used: { data: 0, analytics: 0 }, byEndpoint: {}, byTool: {} };
+}
+
+function increment(counters: Record<string, UsageCounter>, key: string, units: number): void {
+  const counter = counters[key] ??= { calls: 0, units: 0 };
+  counter.calls += 1;
+  counter.units += units;
+}
+
+/**
+ * Counts the quota units spent per endpoint and per tool and persists the daily totals.
+ * Shared by all accounts, since YouTube quota belongs to the Google Cloud project.
+ */
+export class QuotaTracker {
+  private usage: QuotaFile;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: QuotaTrackerOptions) {
+    this.usage = this.load();
+  }
+
+  getCost(endpoint: string): { api: QuotaApi; units: number } {
+    return QUOTA_COSTS[endpoint] ?? DEFAULT_COST;
+  }
+
+  /**
+   * Throws QuotaBudgetExceededError when the request would push its API over the daily budget.
+   */
+  assertWithinBudget(endpoint: string): void {
+    const { api, units } = this.getCost(endpoint);
+    const budget = this.options.budgets[api];
+    const used = this.current().used[api];
+    if (budget > 0 && used + units > budget) {
+      throw new QuotaBudgetExceededError(endpoint, units, used, budget, getNextReset().toISOString());
+    }
+  }
+
+  // Records one request attempt; failed attempts are charged too, as they are by Google
+  record(endpoint: string, tool: string = 'unknown'): void {
+    const { api, units } = this.getCost(endpoint);
+    const usage = this.current();
+    usage.used[api] += units;
+    increment(usage.byEndpoint, endpoint, units);
+    increment(usage.byTool, tool, units);
+    this.scheduleSave();
+  }
+
+  getUsage(): QuotaUsage {
+    const usage = this.current();
+    const remaining = (api: QuotaApi) => this.options.budgets[api] > 0 ? Math.max(0, this.options.budgets[api] - usage.used[api]) : null;
+    return {
+      ...structuredClone(usage),
+      budgets: { ...this.options.budgets },
+      remaining: { data: remaining('data'), analytics: remaining('analytics') },
+      resetsAt: getNextReset().toISOString()
+    };
+  }
+
+  // Writes pending usage immediately, e.g. before the process exits
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save();
+    }
+  }
+
+  // Rolls over to a fresh counter when the Pacific day has changed
+  private current(): QuotaFile {
+    const today = getQuotaDay();
+    if (this.usage.date !== today) {
+      this.usage = emptyUsage(today);
+    }
+    return this.usage;
+  }
+
+  private load(): QuotaFile {
+    const today = getQuotaDay();
+    try {
+      const file: QuotaFile = JSON.parse(readFileSync(this.options.filePath, 'utf8'));
+      return file.date === today ? { ...emptyUsage(today), ...file } : emptyUsage(today);
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        log.warn(`Ignoring unreadable quota file ${this.options.filePath}`, error);
+      }
+      return emptyUsage(today);
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch((error) => log.warn('Failed to persist quota usage', error));
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private async save(): Promise<void> {
+    mkdirSync(path.dirname(this.options.filePath), { recursive: true, mode: 0o700 });
+    const tempPath = `${this.options.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(this.usage, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.options.filePath);
+  }
+}
@@ -0,0 +1,140 @@
+import { recordApiCoalesced } from './api-stats.js';
+
+export interface RequestSchedulerOptions {
+  // Requests in flight at the same time; 0 disables the limit
+  maxConcurrency: number;
+  // Requests started per second; 0 disables the limit
+  requestsPerSecond: number;
+}
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  // Signal of the caller that started the request
+  signal?: AbortSignal;
+}
+
+interface Waiter {
+  resolve: () => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+// Rejects as soon as the signal aborts, without cancelling the underlying promise
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  signal.throwIfAborted();
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Paces API requests across all clients and tool calls: at most maxConcurrency requests
+ * in flight, started no faster than requestsPerSecond, and identical concurrent requests
+ * sent only once.
+ */
+export class RequestScheduler {
+  private active = 0;
+  private readonly queue: Waiter[] = [];
+  private nextStartAt = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private readonly inFlight = new Map<string, SharedRequest>();
+
+  constructor(private readonly options: RequestSchedulerOptions) {}
+
+  /**
+   * Runs fn unless a request with the same key is already in flight, in which case its
+   * result is shared. When the caller that started a shared request cancels it, callers
+   * still waiting on it start their own request instead of failing.
+   */
+  async dedupe<T>(key: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    const shared = this.inFlight.get(key);
+    if (shared) {
+      recordApiCoalesced();
+      try {
+        return await abortable(shared.promise as Promise<T>, signal);
+      } catch (error) {
+        if (shared.signal?.aborted && !signal?.aborted) {
+          if (this.inFlight.get(key) === shared) {
+            this.inFlight.delete(key);
+          }
+          return this.dedupe(key, fn, signal);
+        }
+        throw error;
+      }
+    }
+
+    const entry: SharedRequest = { promise: fn(), signal };
+    this.inFlight.set(key, entry);
+    try {
+      return await (entry.promise as Promise<T>);
+    } finally {
+      if (this.inFlight.get(key) === entry) {
+        this.inFlight.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Waits for a free slot under the concurrency and rate limits, then runs fn.
+   * A cancelled caller leaves the queue immediately.
+   */
+  async run<T>(fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await fn();
+    } finally {
+      this.active -= 1;
+      this.drain();
+    }
+  }
+
+  getStats(): { active: number; queued: number; inFlight: number } {
+    return { active: this.active, queued: this.queue.length, inFlight: this.inFlight.size };
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue.splice(this.queue.indexOf(waiter), 1);
+          reject(signal.reason);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  private drain(): void {
+    const { maxConcurrency, requestsPerSecond } = this.options;
+    while (this.queue.length > 0 && (maxConcurrency <= 0 || this.active < maxConcurrency)) {
+      const now = Date.now();
+      if (now < this.nextStartAt) {
+        // Rate limited: wake up when the next start is allowed
+        this.timer ??= setTimeout(() => {
+          this.timer = null;
+          this.drain();
+        }, this.nextStartAt - now);
+        return;
+      }
+
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) {
+        waiter.signal!.removeEventListener('abort', waiter.onAbort);
+      }
+      this.active += 1;
+      if (requestsPerSecond > 0) {
+        this.nextStartAt = now + 1000 / requestsPerSecond;
+      }
+      waiter.resolve();
+    }
+  }
+}
@@ -0,0 +1,250 @@
+import { mkdirSync, readFileSync } from 'fs';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CacheStats } from '../types.js';
+import { createLogger } from '../utils/logger.js';
+import { classifyApiError } from './retry-policy.js';
+
+const log = createLogger('cache');
+
+export const CACHE_MODES = ['off', 'memory', 'disk'] as const;
+
+export type CacheMode = typeof CACHE_MODES[number];
+
+// TTLs in seconds, keyed by endpoint. Analytics reports are split by whether the range is still changing.
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  'youtube.channels.list': 60 * 60,
+  'youtube.playlists.list': 60 * 60,
+  'youtube.playlistItems.list': 10 * 60,
+  'youtube.videos.list': 15 * 60,
+  'youtube.search.list': 15 * 60,
+  'analytics.recent': 15 * 60,
+  'analytics.historical': 24 * 60 * 60,
+  default: 10 * 60
+};
+
+const ANALYTICS_ENDPOINT = 'youtubeAnalytics.reports.query';
+// YouTube Analytics keeps revising the last few days; older ranges are final
+const ANALYTICS_SETTLE_DAYS = 3;
+const SAVE_DELAY_MS = 1000;
+
+export interface ResponseCacheOptions {
+  mode: CacheMode;
+  ttls: Record<string, number>;
+  // JSON file used in disk mode
+  filePath: string;
+  maxEntries: number;
+  // How long an expired entry may still be served when the API call fails
+  maxStaleSeconds: number;
+}
+
+interface CacheEntry {
+  scope: string;
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+}
+
+interface CacheFile {
+  version: 1;
+  entries: Record<string, CacheEntry>;
+}
+
+// Recursively sorts object keys and drops undefined values so equal params give equal keys
+function normalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(normalize);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value)
+        .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+        .sort()
+        .map(key => [key, normalize((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+// Identifies a request by account, endpoint and normalized params
+export function buildRequestKey(scope: string, endpoint: string, params: unknown): string {
+  return `${scope}|${endpoint}|${JSON.stringify(normalize(params))}`;
+}
+
+const STALE_FALLBACK_KINDS = new Set(['quota', 'rateLimit', 'server', 'network']);
+
+/**
+ * Errors after which serving an expired entry beats failing: quota and rate limits,
+ * server errors and network failures. Auth and validation errors are never masked.
+ */
+function allowsStaleFallback(error: unknown): boolean {
+  return STALE_FALLBACK_KINDS.has(classifyApiError(error).kind);
+}
+
+export class ResponseCache {
+  private readonly entries = new Map<string, CacheEntry>();
+  private hits = 0;
+  private misses = 0;
+  private staleHits = 0;
+  private saveTimer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: ResponseCacheOptions) {
+    if (options.mode === 'disk') {
+      this.load();
+    }
+  }
+
+  get enabled(): boolean {
+    return this.options.mode !== 'off';
+  }
+
+  /**
+   * Picks the TTL for a request. Analytics ranges ending within the last few days
+   * use the short "analytics.recent" TTL; closed ranges use "analytics.historical".
+   */
+  getTtlSeconds(endpoint: string, params: Record<string, unknown>): number {
+    const ttls = this.options.ttls;
+    if (endpoint === ANALYTICS_ENDPOINT) {
+      const settledBefore = new Date();
+      settledBefore.setDate(settledBefore.getDate() - ANALYTICS_SETTLE_DAYS);
+      const endDate = typeof params.endDate === 'string' ? params.endDate : '';
+      const isHistorical = endDate !== '' && endDate < settledBefore.toISOString().split('T')[0];
+      return isHistorical ? ttls['analytics.historical'] : ttls['analytics.recent'];
+    }
+    return ttls[endpoint] ?? ttls.default;
+  }
+
+  buildKey(scope: string, endpoint: string, params: unknown): string {
+    return buildRequestKey(scope, endpoint, params);
+  }
+
+  /**
+   * Returns a fresh cached value, or fetches and stores a new one. If the fetch fails
+   * with a transient error and an expired entry is still within maxStaleSeconds, the
+   * expired value is returned instead.
+   */
+  async getOrFetch<T>(scope: string, endpoint: string, params: Record<string, unknown>, fetch: () => Promise<T>): Promise<T> {
+    const ttlSeconds = this.getTtlSeconds(endpoint, params);
+    if (!this.enabled || ttlSeconds <= 0) {
+      return await fetch();
+    }
+
+    const key = this.buildKey(scope, endpoint, params);
+    const cached = this.entries.get(key);
+    const now = Date.now();
+    if (cached && cached.expiresAt > now) {
+      this.hits += 1;
+      return cached.value as T;
+    }
+
+    this.misses += 1;
+    try {
+      const value = await fetch();
+      this.set(key, { scope, value, storedAt: now, expiresAt: now + ttlSeconds * 1000 });
+      return value;
+    } catch (error) {
+      if (cached && now - cached.expiresAt <= this.options.maxStaleSeconds * 1000 && allowsStaleFallback(error)) {
+        this.staleHits += 1;
+        log.warn(`Serving stale ${endpoint} response from ${new Date(cached.storedAt).toISOString()} after API error`, error);
+        return cached.value as T;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Removes all entries, or only those of one account. Returns the number removed.
+   */
+  clear(scope?: string): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (!scope || entry.scope === scope) {
+        this.entries.delete(key);
+        removed += 1;
+      }
+    }
+    if (removed > 0) {
+      this.scheduleSave();
+    }
+    return removed;
+  }
+
+  getStats(): CacheStats {
+    return {
+      mode: this.options.mode,
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      staleHits: this.staleHits
+    };
+  }
+
+  private set(key: string, entry: CacheEntry): void {
+    // Re-insert so Map order doubles as least-recently-stored order for eviction
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.options.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    this.scheduleSave();
+  }
+
+  private isRetained(entry: CacheEntry, now: number): boolean {
+    return now - entry.expiresAt <= this.options.maxStaleSeconds * 1000;
+  }
+
+  private load(): void {
+    let file: CacheFile;
+    try {
+      file = JSON.parse(readFileSync(this.options.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        log.warn(`Ignoring unreadable response cache ${this.options.filePath}`, error);
+      }
+      return;
+    }
+
+    const now = Date.now();
+    Object.entries(file.entries ?? {}).forEach(([key, entry]) => {
+      if (this.isRetained(entry, now)) {
+        this.entries.set(key, entry);
+      }
+    });
+    log.debug(`Loaded ${this.entries.size} cached responses from ${this.options.filePath}`);
+  }
+
+  // Writes pending entries immediately, e.g. before the process exits
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+      await this.save();
+    }
+  }
+
+  private scheduleSave(): void {
+    if (this.options.mode !== 'disk' || this.saveTimer) {
+      return;
+    }
+    // Batch writes; unref so a pending save never keeps the process alive
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.save().catch((error) => log.warn('Failed to persist response cache', error));
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  private async save(): Promise<void> {
+    const now = Date.now();
+    const file: CacheFile = {
+      version: 1,
+      entries: Object.fromEntries([...this.entries].filter(([, entry]) => this.isRetained(entry, now)))
+    };
+
+    // Cached reports are private channel data, so the file is owner-only; write-then-rename keeps it intact on crashes
+    mkdirSync(path.dirname(this.options.filePath), { recursive: true, mode: 0o700 });
+    const tempPath = `${this.options.filePath}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(file), { mode: 0o600 });
+    await fs.rename(tempPath, this.options.filePath);
+  }
+}
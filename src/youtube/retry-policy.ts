@@ -0,0 +1,165 @@
+import {
+  ApiAuthenticationError,
+  ApiErrorDetails,
+  QuotaExceededError,
+  RateLimitError,
+  YouTubeApiError
+} from './types.js';
+
+export interface RetryPolicy {
+  // Total attempts including the first request
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Retry-After waits longer than this are not worth holding a tool call open for
+  maxRetryAfterMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 16000,
+  maxRetryAfterMs: 60000
+};
+
+// Google error reasons, found in error.errors[].reason of Data and Analytics API responses
+const QUOTA_REASONS = new Set(['quotaExceeded', 'dailyLimitExceeded']);
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+
+// Node socket and DNS failures worth retrying
+const TRANSIENT_NETWORK_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'ECONNABORTED', 'ESOCKETTIMEDOUT']);
+
+const RETRYABLE_STATUSES = new Set([500, 502, 503, 504]);
+
+function getHttpStatus(error: any): number | undefined {
+  const status = Number(error?.response?.status ?? error?.status ?? error?.code);
+  return Number.isInteger(status) && status >= 100 ? status : undefined;
+}
+
+function getReason(error: any): string | undefined {
+  const data = error?.response?.data;
+  // OAuth token errors (e.g. invalid_grant) come back as { error: "..." }
+  if (typeof data?.error === 'string') {
+    return data.error;
+  }
+  return error?.errors?.[0]?.reason ?? data?.error?.errors?.[0]?.reason ?? data?.error?.status ?? undefined;
+}
+
+function getHeader(error: any, name: string): string | undefined {
+  const headers = error?.response?.headers;
+  if (!headers) {
+    return undefined;
+  }
+  const value = typeof headers.get === 'function' ? headers.get(name) : headers[name] ?? headers[name.toLowerCase()];
+  return value === null || value === undefined ? undefined : String(value);
+}
+
+/**
+ * Parses a Retry-After header, given either as seconds or as an HTTP date.
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Sorts an API failure into a kind and decides whether it is worth retrying.
+ * Errors that were already classified keep their classification.
+ */
+export function classifyApiError(error: any): ApiErrorDetails {
+  if (error instanceof YouTubeApiError) {
+    return {
+      kind: error.kind,
+      retryable: error.retryable,
+      httpStatus: error.httpStatus,
+      reason: error.reason,
+      retryAfterMs: error.retryAfterMs
+    };
+  }
+
+  const httpStatus = getHttpStatus(error);
+  const reason = getReason(error);
+  const retryAfterMs = parseRetryAfter(getHeader(error, 'retry-after'));
+  const details = { httpStatus, reason, retryAfterMs };
+
+  if (reason && QUOTA_REASONS.has(reason)) {
+    return { ...details, kind: 'quota', retryable: false };
+  }
+  if (httpStatus === 429 || (reason && RATE_LIMIT_REASONS.has(reason))) {
+    return { ...details, kind: 'rateLimit', retryable: true };
+  }
+  if (httpStatus !== undefined && RETRYABLE_STATUSES.has(httpStatus)) {
+    return { ...details, kind: 'server', retryable: true };
+  }
+  if (httpStatus === 401 || reason === 'invalid_grant') {
+    return { ...details, kind: 'auth', retryable: false };
+  }
+  if (httpStatus === 403) {
+    return { ...details, kind: 'permission', retryable: false };
+  }
+  if (httpStatus === 404) {
+    return { ...details, kind: 'notFound', retryable: false };
+  }
+  if (httpStatus === 400) {
+    return { ...details, kind: 'invalidRequest', retryable: false };
+  }
+  if (httpStatus === undefined && TRANSIENT_NETWORK_CODES.has(String(error?.code))) {
+    return { ...details, kind: 'network', retryable: true };
+  }
+  return { ...details, kind: 'unknown', retryable: false };
+}
+
+/**
+ * Milliseconds to wait before the next attempt, or undefined when the error should not
+ * be retried. A Retry-After header wins; otherwise the delay backs off exponentially
+ * with equal jitter, so concurrent callers do not retry in lockstep.
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  details: ApiErrorDetails,
+  random: () => number = Math.random
+): number | undefined {
+  if (!details.retryable || attempt + 1 >= policy.maxAttempts) {
+    return undefined;
+  }
+  if (details.retryAfterMs !== undefined) {
+    return details.retryAfterMs <= policy.maxRetryAfterMs ? details.retryAfterMs : undefined;
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/**
+ * Wraps a raw API error in the matching YouTubeApiError subclass. Errors that are
+ * already typed, and non-API errors such as cancellations, are returned unchanged.
+ */
+export function toYouTubeApiError(error: unknown): unknown {
+  if (error instanceof YouTubeApiError || !(error instanceof Error)) {
+    return error;
+  }
+  const details = classifyApiError(error);
+  const { httpStatus, reason, retryAfterMs } = details;
+  const options = { cause: error };
+
+  switch (details.kind) {
+    case 'quota':
+      return new QuotaExceededError({ httpStatus, reason }, options);
+    case 'rateLimit':
+      return new RateLimitError(`YouTube API rate limit exceeded${reason ? ` (${reason})` : ''}`, { httpStatus, reason, retryAfterMs }, options);
+    case 'auth':
+      return new ApiAuthenticationError({ httpStatus, reason }, options);
+    case 'unknown':
+      // Not recognisably an API failure, e.g. a bug or a local validation error
+      return httpStatus === undefined && reason === undefined ? error : new YouTubeApiError(error.message, details, options);
+    default:
+      return new YouTubeApiError(error.message, details, options);
+  }
+}
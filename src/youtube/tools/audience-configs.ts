@@ -1,7 +1,11 @@
 import { z } from "zod";
 import { ToolConfig, ToolContext } from '../../types.js';
+import { accountParam, channelParam, formatParam } from './common-schemas.js';
+import { demographicSchema, geographicSchema, subscriberSchema } from './output-schemas.js';
 import { parseAnalyticsResponse, parseDemographics, parseGeographic, parseSubscriberAnalytics } from '../../utils/parsers/analytics.js';
-import { formatDemographics, formatGeographicDistribution, formatSubscriberAnalytics } from '../../utils/formatters/audience.js';
+import { formatDemographics, formatGeographicDistribution, formatSubscriberAnalytics, demographicsTable, geographicTable, subscriberTable } from '../../utils/formatters/audience.js';
+import { renderOutput } from '../../utils/formatters/renderers.js';
+import { toolErrorResult } from '../../utils/tool-errors.js';
 
 
 export const audienceTools: ToolConfig[] = [
@@ -12,32 +16,41 @@ export const audienceTools: ToolConfig[] = [
     schema: z.object({
       startDate: z.string().describe("Start date (YYYY-MM-DD)"),
       endDate: z.string().describe("End date (YYYY-MM-DD)"),
-      videoId: z.string().optional().describe("Optional video ID for video-specific analysis")
+      videoId: z.string().optional().describe("Optional video ID for video-specific analysis"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
     }),
-    handler: async ({ startDate, endDate, videoId }, { getYouTubeClient }: ToolContext) => {
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      videoId: z.string().optional(),
+      demographics: z.array(demographicSchema)
+    }),
+    handler: async ({ startDate, endDate, videoId, format, channel, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
-        const rawData = await youtubeClient.getDemographics({ startDate, endDate, videoId, metrics: [] });
+        const youtubeClient = await getYouTubeClient(account);
+        const rawData = await youtubeClient.getDemographics({ startDate, endDate, videoId, metrics: [], channelId: channel });
         
         // Parse and format the data
         const parsedData = parseAnalyticsResponse(rawData);
         const demographicData = parseDemographics(parsedData);
-        const formattedText = formatDemographics(demographicData);
         
+        const structuredContent = { startDate, endDate, videoId, demographics: demographicData };
+
         return {
           content: [{
             type: "text",
-            text: `Demographics Analysis (${startDate} to ${endDate})${videoId ? ` for video ${videoId}` : ''}:\n\n${formattedText}`
-          }]
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => `Demographics Analysis (${startDate} to ${endDate})${videoId ? ` for video ${videoId}` : ''}:\n\n${formatDemographics(demographicData)}`,
+              tables: () => [demographicsTable(demographicData)],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
@@ -48,32 +61,41 @@ export const audienceTools: ToolConfig[] = [
     schema: z.object({
       startDate: z.string().describe("Start date (YYYY-MM-DD)"),
       endDate: z.string().describe("End date (YYYY-MM-DD)"),
-      videoId: z.string().optional().describe("Optional video ID for video-specific analysis")
+      videoId: z.string().optional().describe("Optional video ID for video-specific analysis"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      videoId: z.string().optional(),
+      countries: z.array(geographicSchema)
     }),
-    handler: async ({ startDate, endDate, videoId }, { getYouTubeClient }: ToolContext) => {
+    handler: async ({ startDate, endDate, videoId, format, channel, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
-        const rawData = await youtubeClient.getGeographicDistribution({ startDate, endDate, videoId, metrics: [] });
+        const youtubeClient = await getYouTubeClient(account);
+        const rawData = await youtubeClient.getGeographicDistribution({ startDate, endDate, videoId, metrics: [], channelId: channel });
         
         // Parse and format the data
         const parsedData = parseAnalyticsResponse(rawData);
         const geographicData = parseGeographic(parsedData);
-        const formattedText = formatGeographicDistribution(geographicData);
         
+        const structuredContent = { startDate, endDate, videoId, countries: geographicData };
+
         return {
           content: [{
             type: "text",
-            text: `Geographic Distribution (${startDate} to ${endDate})${videoId ? ` for video ${videoId}` : ''}:\n\n${formattedText}`
-          }]
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => `Geographic Distribution (${startDate} to ${endDate})${videoId ? ` for video ${videoId}` : ''}:\n\n${formatGeographicDistribution(geographicData)}`,
+              tables: () => [geographicTable(geographicData)],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
@@ -84,32 +106,41 @@ export const audienceTools: ToolConfig[] = [
     schema: z.object({
       startDate: z.string().describe("Start date (YYYY-MM-DD)"),
       endDate: z.string().describe("End date (YYYY-MM-DD)"),
-      videoId: z.string().optional().describe("Optional video ID for video-specific analysis")
+      videoId: z.string().optional().describe("Optional video ID for video-specific analysis"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      videoId: z.string().optional(),
+      subscriberStatus: z.array(subscriberSchema)
     }),
-    handler: async ({ startDate, endDate, videoId }, { getYouTubeClient }: ToolContext) => {
+    handler: async ({ startDate, endDate, videoId, format, channel, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
-        const rawData = await youtubeClient.getSubscriberAnalytics({ startDate, endDate, videoId, metrics: [] });
+        const youtubeClient = await getYouTubeClient(account);
+        const rawData = await youtubeClient.getSubscriberAnalytics({ startDate, endDate, videoId, metrics: [], channelId: channel });
         
         // Parse and format the data
         const parsedData = parseAnalyticsResponse(rawData);
         const subscriberData = parseSubscriberAnalytics(parsedData);
-        const formattedText = formatSubscriberAnalytics(subscriberData);
         
+        const structuredContent = { startDate, endDate, videoId, subscriberStatus: subscriberData };
+
         return {
           content: [{
             type: "text",
-            text: `Subscriber Analytics (${startDate} to ${endDate})${videoId ? ` for video ${videoId}` : ''}:\n\n${formattedText}`
-          }]
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => `Subscriber Analytics (${startDate} to ${endDate})${videoId ? ` for video ${videoId}` : ''}:\n\n${formatSubscriberAnalytics(subscriberData)}`,
+              tables: () => [subscriberTable(subscriberData)],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
@@ -1,6 +1,11 @@
 import { z } from "zod";
 import { ToolConfig, ToolContext } from '../../types.js';
-import { formatChannelInfo, formatVideoList } from '../../utils/formatters/channel.js';
+import { accountParam, channelParam, formatParam } from './common-schemas.js';
+import { channelInfoSchema, uploadedVideoSchema, videoInfoSchema, ownedChannelSchema } from './output-schemas.js';
+import { VIDEO_PRIVACY_FILTERS } from '../types.js';
+import { formatChannelInfo, formatOwnedChannels, formatVideoDetails, formatVideoList, channelInfoTable, ownedChannelsTable, videoDetailsTable, videoListTable } from '../../utils/formatters/channel.js';
+import { renderOutput } from '../../utils/formatters/renderers.js';
+import { toolErrorResult } from '../../utils/tool-errors.js';
 
 
 export const channelTools: ToolConfig[] = [
@@ -8,67 +13,157 @@ export const channelTools: ToolConfig[] = [
     name: "get_channel_info",
     description: "Get information about the authenticated YouTube channel",
     category: "channel",
-    schema: z.object({}),
-    handler: async (_, { getYouTubeClient }: ToolContext) => {
+    schema: z.object({
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      channel: channelInfoSchema
+    }),
+    handler: async ({ format, channel, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
-        const channelInfo = await youtubeClient.getChannelInfo();
-        const formattedText = formatChannelInfo(channelInfo);
+        const youtubeClient = await getYouTubeClient(account);
+        const channelInfo = await youtubeClient.getChannelInfo(channel);
         
+        const structuredContent = { channel: channelInfo };
+
         return {
           content: [{
             type: "text",
-            text: formattedText
-          }]
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => formatChannelInfo(channelInfo),
+              tables: () => [channelInfoTable(channelInfo)],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
   {
     name: "get_channel_videos",
-    description: "Get list of channel videos with optional filters for demographic analysis",
+    description: "List all channel uploads, including unlisted, private and scheduled videos, with optional title, date and privacy filters and cursor-based pagination",
     category: "channel",
     schema: z.object({
-      query: z.string().optional().describe("Optional search query to filter videos"),
-      startDate: z.string().optional().describe("Optional start date (YYYY-MM-DD)"),
-      endDate: z.string().optional().describe("Optional end date (YYYY-MM-DD)"),
-      maxResults: z.number().optional().default(25).describe("Number of videos to return (default 25, max 50)")
+      query: z.string().optional().describe("Optional text the video title must contain (case-insensitive)"),
+      startDate: z.string().optional().describe("Optional earliest publish date (YYYY-MM-DD)"),
+      endDate: z.string().optional().describe("Optional latest publish date (YYYY-MM-DD)"),
+      privacyStatus: z.enum(VIDEO_PRIVACY_FILTERS).optional().default("all").describe("Only return videos with this privacy status (default all)"),
+      maxResults: z.number().optional().default(25).describe("Number of videos per page (default 25, max 50)"),
+      cursor: z.string().optional().describe("nextCursor from a previous call with the same filters, to get the next page"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      videos: z.array(uploadedVideoSchema),
+      totalResults: z.number(),
+      nextCursor: z.string().optional()
     }),
-    handler: async ({ query, startDate, endDate, maxResults = 25 }, { getYouTubeClient }: ToolContext) => {
+    handler: async ({ query, startDate, endDate, privacyStatus = "all", maxResults = 25, cursor, format, channel, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
-        const videos = await youtubeClient.searchChannelVideos({
+        const youtubeClient = await getYouTubeClient(account);
+        const page = await youtubeClient.searchChannelVideos({
           query,
           startDate,
           endDate,
-          maxResults: Math.min(maxResults, 50)
+          privacyStatus,
+          maxResults: Math.min(maxResults, 50),
+          cursor,
+          channelId: channel
         });
         
-        const formattedText = formatVideoList({ videos, filterOptions: { query, startDate, endDate } });
-        
+        const structuredContent = { ...page };
+
         return {
           content: [{
             type: "text",
-            text: formattedText
-          }]
+            text: renderOutput(format, {
+              text: () => formatVideoList({ ...page, filterOptions: { query, startDate, endDate, privacyStatus } }),
+              tables: () => [videoListTable(page)],
+              data: structuredContent
+            })
+          }],
+          structuredContent
         };
       } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+  {
+    name: "get_video_details",
+    description: "Get title, duration, tags, category, captions, definition, region restrictions and statistics for up to 500 videos at once",
+    category: "channel",
+    schema: z.object({
+      videoIds: z.array(z.string()).min(1).max(500).describe("Video IDs to look up (up to 500; fetched 50 per API call)"),
+      format: formatParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      videos: z.array(videoInfoSchema),
+      notFound: z.array(z.string())
+    }),
+    handler: async ({ videoIds, format, account }, { getYouTubeClient }: ToolContext) => {
+      try {
+        const youtubeClient = await getYouTubeClient(account);
+        const details = await youtubeClient.getVideoDetailsBatch(videoIds);
+
+        const structuredContent = { ...details };
+
         return {
           content: [{
             type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => formatVideoDetails(details),
+              tables: () => [videoDetailsTable(details)],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+  {
+    name: "list_owned_channels",
+    description: "List all channels managed by the configured content owner (CMS mode only)",
+    category: "channel",
+    schema: z.object({
+      format: formatParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      contentOwner: z.string().optional(),
+      channels: z.array(ownedChannelSchema)
+    }),
+    handler: async ({ format, account }, { getYouTubeClient }: ToolContext) => {
+      try {
+        const youtubeClient = await getYouTubeClient(account);
+        const channels = await youtubeClient.listOwnedChannels();
+        
+        const structuredContent = { contentOwner: youtubeClient.getContentOwner(), channels };
+
+        return {
+          content: [{
+            type: "text",
+            text: renderOutput(format, {
+              text: () => formatOwnedChannels(channels, youtubeClient.getContentOwner()),
+              tables: () => [ownedChannelsTable(channels)],
+              data: structuredContent
+            })
+          }],
+          structuredContent
+        };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
-];
+];
\ No newline at end of file
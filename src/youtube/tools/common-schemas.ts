@@ -0,0 +1,7 @@
+import { z } from "zod";
+import { OUTPUT_FORMATS } from '../../utils/formatters/renderers.js';
+
+// Shared parameters accepted by every YouTube tool
+export const accountParam = z.string().optional().describe("Optional account (channel ID or channel title) to query instead of the active account");
+export const channelParam = z.string().optional().describe("Optional channel ID to report on; required in content owner mode (use list_owned_channels to find IDs)");
+export const formatParam = z.enum(OUTPUT_FORMATS).optional().default('text').describe("Output format: text (default), markdown-table, csv or json");
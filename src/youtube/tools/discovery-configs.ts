@@ -1,7 +1,11 @@
 import { z } from "zod";
 import { ToolConfig, ToolContext } from '../../types.js';
+import { accountParam, channelParam, formatParam } from './common-schemas.js';
+import { optimalPostingSchema, trafficSourceSchema, searchTermSchema } from './output-schemas.js';
 import { parseAnalyticsResponse, parseTrafficSources, parseSearchTerms } from '../../utils/parsers/analytics.js';
-import { analyzeOptimalPostingTime, formatOptimalPostingTime, formatTrafficSources, formatSearchTerms } from '../../utils/formatters/discovery.js';
+import { analyzeOptimalPostingTime, formatOptimalPostingTime, formatTrafficSources, formatSearchTerms, optimalPostingTables, trafficSourcesTable, searchTermsTable } from '../../utils/formatters/discovery.js';
+import { renderOutput } from '../../utils/formatters/renderers.js';
+import { toolErrorResult } from '../../utils/tool-errors.js';
 
 
 export const discoveryTools: ToolConfig[] = [
@@ -11,32 +15,40 @@ export const discoveryTools: ToolConfig[] = [
     category: "discovery",
     schema: z.object({
       startDate: z.string().describe("Start date (YYYY-MM-DD)"),
-      endDate: z.string().describe("End date (YYYY-MM-DD)")
+      endDate: z.string().describe("End date (YYYY-MM-DD)"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      analysis: optimalPostingSchema
     }),
-    handler: async ({ startDate, endDate }, { getYouTubeClient }: ToolContext) => {
+    handler: async ({ startDate, endDate, format, channel, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
-        const rawData = await youtubeClient.getOptimalPostingTime({ startDate, endDate });
+        const youtubeClient = await getYouTubeClient(account);
+        const rawData = await youtubeClient.getOptimalPostingTime({ startDate, endDate, channelId: channel });
         
         // Parse and analyze the data
         const parsedData = parseAnalyticsResponse(rawData);
         const analysis = analyzeOptimalPostingTime(parsedData);
-        const formattedText = formatOptimalPostingTime(analysis);
         
+        const structuredContent = { startDate, endDate, analysis };
+
         return {
           content: [{
             type: "text",
-            text: formattedText
-          }]
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => formatOptimalPostingTime(analysis),
+              tables: () => optimalPostingTables(analysis),
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
@@ -47,32 +59,41 @@ export const discoveryTools: ToolConfig[] = [
     schema: z.object({
       startDate: z.string().describe("Start date (YYYY-MM-DD)"),
       endDate: z.string().describe("End date (YYYY-MM-DD)"),
-      videoId: z.string().optional().describe("Optional video ID for video-specific analysis")
+      videoId: z.string().optional().describe("Optional video ID for video-specific analysis"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      videoId: z.string().optional(),
+      trafficSources: z.array(trafficSourceSchema)
     }),
-    handler: async ({ startDate, endDate, videoId }, { getYouTubeClient }: ToolContext) => {
+    handler: async ({ startDate, endDate, videoId, format, channel, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
-        const rawData = await youtubeClient.getTrafficSources({ startDate, endDate, videoId, metrics: [] });
+        const youtubeClient = await getYouTubeClient(account);
+        const rawData = await youtubeClient.getTrafficSources({ startDate, endDate, videoId, metrics: [], channelId: channel });
         
         // Parse and format the data
         const parsedData = parseAnalyticsResponse(rawData);
         const trafficData = parseTrafficSources(parsedData);
-        const formattedText = formatTrafficSources(trafficData);
         
+        const structuredContent = { startDate, endDate, videoId, trafficSources: trafficData };
+
         return {
           content: [{
             type: "text",
-            text: `Traffic Sources (${startDate} to ${endDate})${videoId ? ` for video ${videoId}` : ''}:\n\n${formattedText}`
-          }]
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => `Traffic Sources (${startDate} to ${endDate})${videoId ? ` for video ${videoId}` : ''}:\n\n${formatTrafficSources(trafficData)}`,
+              tables: () => [trafficSourcesTable(trafficData)],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
@@ -83,32 +104,41 @@ export const discoveryTools: ToolConfig[] = [
     schema: z.object({
       videoId: z.string().describe("Video ID to analyze search terms for"),
       startDate: z.string().describe("Start date (YYYY-MM-DD)"),
-      endDate: z.string().describe("End date (YYYY-MM-DD)")
+      endDate: z.string().describe("End date (YYYY-MM-DD)"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      videoId: z.string(),
+      startDate: z.string(),
+      endDate: z.string(),
+      searchTerms: z.array(searchTermSchema)
     }),
-    handler: async ({ videoId, startDate, endDate }, { getYouTubeClient }: ToolContext) => {
+    handler: async ({ videoId, startDate, endDate, format, channel, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
-        const rawData = await youtubeClient.getSearchTerms({ videoId, startDate, endDate, metrics: [] });
+        const youtubeClient = await getYouTubeClient(account);
+        const rawData = await youtubeClient.getSearchTerms({ videoId, startDate, endDate, metrics: [], channelId: channel });
         
         // Parse and format the data
         const parsedData = parseAnalyticsResponse(rawData);
         const searchData = parseSearchTerms(parsedData);
-        const formattedText = formatSearchTerms(searchData);
         
+        const structuredContent = { videoId, startDate, endDate, searchTerms: searchData };
+
         return {
           content: [{
             type: "text",
-            text: `Search Terms for video ${videoId} (${startDate} to ${endDate}):\n\n${formattedText}`
-          }]
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => `Search Terms for video ${videoId} (${startDate} to ${endDate}):\n\n${formatSearchTerms(searchData)}`,
+              tables: () => [searchTermsTable(searchData)],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
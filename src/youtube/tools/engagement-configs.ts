@@ -1,7 +1,11 @@
 import { z } from "zod";
 import { ToolConfig, ToolContext } from '../../types.js';
+import { accountParam, formatParam } from './common-schemas.js';
+import { engagementAnalysisSchema } from './output-schemas.js';
 import { parseAnalyticsResponse, parseEngagementMetrics } from '../../utils/parsers/analytics.js';
-import { analyzeEngagement, formatEngagementMetrics } from '../../utils/formatters/engagement.js';
+import { analyzeEngagement, formatEngagementMetrics, engagementTable } from '../../utils/formatters/engagement.js';
+import { renderOutput } from '../../utils/formatters/renderers.js';
+import { toolErrorResult } from '../../utils/tool-errors.js';
 
 
 export const engagementTools: ToolConfig[] = [
@@ -12,11 +16,19 @@ export const engagementTools: ToolConfig[] = [
     schema: z.object({
       startDate: z.string().describe("Start date (YYYY-MM-DD)"),
       endDate: z.string().describe("End date (YYYY-MM-DD)"),
-      videoId: z.string().optional().describe("Optional video ID for specific analysis")
+      videoId: z.string().optional().describe("Optional video ID for specific analysis"),
+      format: formatParam,
+      account: accountParam
     }),
-    handler: async ({ startDate, endDate, videoId }, { getYouTubeClient }: ToolContext) => {
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      videoId: z.string().optional(),
+      analysis: engagementAnalysisSchema
+    }),
+    handler: async ({ startDate, endDate, videoId, format, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
+        const youtubeClient = await getYouTubeClient(account);
         const rawData = await youtubeClient.getEngagementMetrics({ 
           startDate, endDate, videoId 
         });
@@ -27,22 +39,22 @@ export const engagementTools: ToolConfig[] = [
         
         // Analyze and format the data
         const analysis = analyzeEngagement(metrics);
-        const formattedText = formatEngagementMetrics(analysis, { startDate, endDate, videoId });
         
+        const structuredContent = { startDate, endDate, videoId, analysis };
+
         return {
           content: [{
             type: "text",
-            text: formattedText
-          }]
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => formatEngagementMetrics(analysis, { startDate, endDate, videoId }),
+              tables: () => [engagementTable(analysis)],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
@@ -1,7 +1,11 @@
 import { z } from "zod";
 import { ToolConfig, ToolContext } from '../../types.js';
+import { accountParam, channelParam, formatParam } from './common-schemas.js';
+import { channelOverviewSchema, comparisonSchema } from './output-schemas.js';
 import { parseAnalyticsResponse } from '../../utils/parsers/analytics.js';
-import { parseChannelOverview, formatChannelOverview, parseComparisonData, formatComparisonMetrics } from '../../utils/formatters/health.js';
+import { parseChannelOverview, formatChannelOverview, parseComparisonData, formatComparisonMetrics, channelOverviewTable, comparisonTable } from '../../utils/formatters/health.js';
+import { renderOutput, keyValueTable } from '../../utils/formatters/renderers.js';
+import { ToolError, toolErrorResult } from '../../utils/tool-errors.js';
 
 
 export const healthTools: ToolConfig[] = [
@@ -11,32 +15,40 @@ export const healthTools: ToolConfig[] = [
     category: "health",
     schema: z.object({
       startDate: z.string().describe("Start date (YYYY-MM-DD)"),
-      endDate: z.string().describe("End date (YYYY-MM-DD)")
+      endDate: z.string().describe("End date (YYYY-MM-DD)"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
     }),
-    handler: async ({ startDate, endDate }, { getYouTubeClient }: ToolContext) => {
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      overview: channelOverviewSchema
+    }),
+    handler: async ({ startDate, endDate, format, channel, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
-        const rawData = await youtubeClient.getChannelOverview({ startDate, endDate });
+        const youtubeClient = await getYouTubeClient(account);
+        const rawData = await youtubeClient.getChannelOverview({ startDate, endDate, channelId: channel });
         
         // Parse and format the data
         const parsedData = parseAnalyticsResponse(rawData);
         const overviewData = parseChannelOverview(parsedData);
-        const formattedText = formatChannelOverview(overviewData, `${startDate} to ${endDate}`);
         
+        const structuredContent = { startDate, endDate, overview: overviewData };
+
         return {
           content: [{
             type: "text",
-            text: `Channel Overview (${startDate} to ${endDate}):\n\n${formattedText}`
-          }]
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => `Channel Overview (${startDate} to ${endDate}):\n\n${formatChannelOverview(overviewData, `${startDate} to ${endDate}`)}`,
+              tables: () => [channelOverviewTable(overviewData)],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
@@ -49,43 +61,50 @@ export const healthTools: ToolConfig[] = [
       period1Start: z.string().describe("Period 1 start date (YYYY-MM-DD)"),
       period1End: z.string().describe("Period 1 end date (YYYY-MM-DD)"),
       period2Start: z.string().describe("Period 2 start date (YYYY-MM-DD)"),
-      period2End: z.string().describe("Period 2 end date (YYYY-MM-DD)")
+      period2End: z.string().describe("Period 2 end date (YYYY-MM-DD)"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      comparison: comparisonSchema
     }),
-    handler: async ({ metrics, period1Start, period1End, period2Start, period2End }, { getYouTubeClient }: ToolContext) => {
+    handler: async ({ metrics, period1Start, period1End, period2Start, period2End, format, channel, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
+        const youtubeClient = await getYouTubeClient(account);
         const rawComparison = await youtubeClient.getComparisonMetrics({
           metrics,
           period1Start,
           period1End,
           period2Start,
-          period2End
+          period2End,
+          channelId: channel
         });
         
         // Parse and format the data
         const comparisonData = parseComparisonData(rawComparison);
         if (!comparisonData) {
-          throw new Error("Failed to parse comparison data");
+          throw new ToolError("NO_DATA", "No analytics data was returned for one or both periods");
         }
-        const formattedText = formatComparisonMetrics(comparisonData);
         
+        const structuredContent = { comparison: comparisonData };
+
         return {
           content: [{
             type: "text",
-            text: `Comparison Metrics:
+            text: renderOutput(format, {
+              text: () => `Comparison Metrics:
 Period 1 (${period1Start} to ${period1End}) vs Period 2 (${period2Start} to ${period2End})
 
-${formattedText}`
-          }]
-        };
-      } catch (error) {
-        return {
-          content: [{
-            type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+${formatComparisonMetrics(comparisonData)}`,
+              tables: () => [comparisonTable(comparisonData)],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
@@ -95,32 +114,46 @@ ${formattedText}`
     category: "health",
     schema: z.object({
       startDate: z.string().describe("Start date (YYYY-MM-DD)"),
-      endDate: z.string().describe("End date (YYYY-MM-DD)")
+      endDate: z.string().describe("End date (YYYY-MM-DD)"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
     }),
-    handler: async ({ startDate, endDate }, { getYouTubeClient }: ToolContext) => {
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      averageViewPercentage: z.number().nullable()
+    }),
+    handler: async ({ startDate, endDate, format, channel, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
+        const youtubeClient = await getYouTubeClient(account);
         const result = await youtubeClient.getChannelAnalytics({
           startDate,
           endDate,
-          metrics: ['averageViewPercentage']
+          metrics: ['averageViewPercentage'],
+          channelId: channel
         });
         
         const percentage = result.rows?.[0]?.[0];
-        return {
-          content: [{
-            type: "text",
-            text: `Average View Percentage (${startDate} to ${endDate}): ${percentage}%\n\nThis shows what percentage of your videos viewers actually watch on average, accounting for different video lengths.`
-          }]
+        const structuredContent = {
+          startDate,
+          endDate,
+          averageViewPercentage: percentage === undefined ? null : Number(percentage)
         };
-      } catch (error) {
+
         return {
           content: [{
             type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => `Average View Percentage (${startDate} to ${endDate}): ${percentage}%\n\nThis shows what percentage of your videos viewers actually watch on average, accounting for different video lengths.`,
+              tables: () => [keyValueTable([['Average View Percentage', structuredContent.averageViewPercentage]])],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
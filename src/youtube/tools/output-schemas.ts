@@ -0,0 +1,250 @@
+import { z } from "zod";
+
+// Zod mirrors of the objects the parsers and formatters build. Tools declare them as
+// outputSchema and return the same objects as structuredContent next to the text.
+
+const thumbnailsSchema = z.record(z.object({ url: z.string().optional() }).optional());
+
+export const channelInfoSchema = z.object({
+  id: z.string(),
+  snippet: z.object({
+    title: z.string().optional(),
+    description: z.string().optional(),
+    customUrl: z.string().optional(),
+    publishedAt: z.string().optional(),
+    thumbnails: thumbnailsSchema.optional(),
+    country: z.string().optional()
+  }),
+  statistics: z.object({
+    viewCount: z.string().optional(),
+    subscriberCount: z.string().optional(),
+    hiddenSubscriberCount: z.boolean().optional(),
+    videoCount: z.string().optional()
+  })
+});
+
+export const searchResultSchema = z.object({
+  kind: z.string().optional(),
+  etag: z.string().optional(),
+  id: z.object({
+    kind: z.string().optional(),
+    videoId: z.string().optional(),
+    channelId: z.string().optional(),
+    playlistId: z.string().optional()
+  }),
+  snippet: z.object({
+    publishedAt: z.string().optional(),
+    channelId: z.string().optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    thumbnails: thumbnailsSchema.optional(),
+    channelTitle: z.string().optional(),
+    liveBroadcastContent: z.string().optional(),
+    publishTime: z.string().optional()
+  })
+});
+
+export const uploadedVideoSchema = z.object({
+  videoId: z.string(),
+  title: z.string(),
+  description: z.string(),
+  publishedAt: z.string(),
+  privacyStatus: z.string(),
+  publishAt: z.string().optional(),
+  duration: z.string().optional(),
+  viewCount: z.string().optional(),
+  likeCount: z.string().optional(),
+  commentCount: z.string().optional(),
+  thumbnailUrl: z.string().optional(),
+  liveBroadcastContent: z.string().optional()
+});
+
+export const videoInfoSchema = z.object({
+  id: z.string(),
+  snippet: z.object({
+    publishedAt: z.string().optional(),
+    channelId: z.string().optional(),
+    title: z.string().optional(),
+    description: z.string().optional(),
+    thumbnails: thumbnailsSchema.optional(),
+    channelTitle: z.string().optional(),
+    tags: z.array(z.string()).optional(),
+    categoryId: z.string().optional(),
+    liveBroadcastContent: z.string().optional(),
+    defaultLanguage: z.string().optional(),
+    defaultAudioLanguage: z.string().optional()
+  }),
+  statistics: z.object({
+    viewCount: z.string().optional(),
+    likeCount: z.string().optional(),
+    favoriteCount: z.string().optional(),
+    commentCount: z.string().optional()
+  }),
+  contentDetails: z.object({
+    duration: z.string().optional(),
+    durationSeconds: z.number().optional(),
+    dimension: z.string().optional(),
+    definition: z.string().optional(),
+    caption: z.string().optional(),
+    licensedContent: z.boolean().optional(),
+    regionRestriction: z.object({
+      allowed: z.array(z.string()).optional(),
+      blocked: z.array(z.string()).optional()
+    }).optional()
+  })
+});
+
+export const ownedChannelSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  customUrl: z.string().optional(),
+  subscriberCount: z.string(),
+  viewCount: z.string(),
+  videoCount: z.string()
+});
+
+export const channelOverviewSchema = z.object({
+  totalViews: z.number(),
+  estimatedMinutesWatched: z.number(),
+  subscribersGained: z.number(),
+  averageViewDuration: z.number(),
+  averageViewPercentage: z.number().optional()
+});
+
+export const comparisonSchema = z.object({
+  period1: channelOverviewSchema,
+  period2: channelOverviewSchema,
+  period1Info: z.object({ period: z.string() }),
+  period2Info: z.object({ period: z.string() }),
+  changes: z.record(z.object({
+    oldValue: z.number(),
+    newValue: z.number(),
+    change: z.number(),
+    percentChange: z.number(),
+    direction: z.enum(['📈', '📉', '➡️'])
+  }))
+});
+
+export const demographicSchema = z.object({
+  ageGroup: z.string(),
+  gender: z.string(),
+  viewerPercentage: z.number()
+});
+
+export const geographicSchema = z.object({
+  country: z.string(),
+  views: z.number(),
+  estimatedMinutesWatched: z.number(),
+  averageViewDuration: z.number()
+});
+
+export const subscriberSchema = z.object({
+  subscribedStatus: z.string(),
+  views: z.number(),
+  estimatedMinutesWatched: z.number(),
+  averageViewDuration: z.number()
+});
+
+export const optimalPostingSchema = z.object({
+  dayOfWeekAnalysis: z.array(z.object({
+    dayOfWeek: z.string(),
+    avgViews: z.number(),
+    avgWatchTime: z.number(),
+    avgSubscribers: z.number(),
+    totalDays: z.number()
+  })),
+  bestPerformingDays: z.array(z.object({
+    date: z.string(),
+    views: z.number(),
+    watchTime: z.number(),
+    subscribers: z.number(),
+    score: z.number()
+  })),
+  hasData: z.boolean()
+});
+
+export const trafficSourceSchema = z.object({
+  sourceType: z.string(),
+  views: z.number(),
+  estimatedMinutesWatched: z.number()
+});
+
+export const searchTermSchema = z.object({
+  searchTerm: z.string(),
+  views: z.number()
+});
+
+export const retentionAnalysisSchema = z.object({
+  metrics: z.object({
+    averageRetention: z.number(),
+    startRetention: z.number(),
+    endRetention: z.number(),
+    totalDrop: z.number()
+  }),
+  retentionData: z.array(z.object({
+    timePercent: z.number(),
+    retentionPercent: z.number()
+  })),
+  criticalMoments: z.array(z.object({
+    type: z.enum(['hook_problem', 'expectation_mismatch']),
+    description: z.string(),
+    timeRange: z.string()
+  })),
+  performanceRating: z.enum(['excellent', 'good', 'fair', 'poor'])
+});
+
+export const dropOffPointSchema = z.object({
+  timePercent: z.number(),
+  dropAmount: z.number(),
+  severity: z.enum(['critical', 'warning'])
+});
+
+export const engagementAnalysisSchema = z.object({
+  totalViews: z.number(),
+  totalLikes: z.number(),
+  totalComments: z.number(),
+  totalShares: z.number(),
+  subscribersGained: z.number(),
+  subscribersLost: z.number(),
+  rates: z.object({
+    likeRate: z.number(),
+    commentRate: z.number(),
+    shareRate: z.number()
+  }),
+  netSubscriberChange: z.number(),
+  insights: z.array(z.object({
+    message: z.string(),
+    type: z.enum(['positive', 'warning', 'negative'])
+  }))
+});
+
+const dailyRevenuePointSchema = z.object({
+  date: z.string(),
+  estimatedRevenue: z.number(),
+  rpm: z.number(),
+  cpm: z.number(),
+  playbackBasedCpm: z.number()
+});
+
+export const revenueTrendSchema = z.object({
+  totals: z.object({
+    views: z.number(),
+    estimatedRevenue: z.number(),
+    estimatedAdRevenue: z.number(),
+    estimatedRedPartnerRevenue: z.number(),
+    grossRevenue: z.number(),
+    monetizedPlaybacks: z.number()
+  }),
+  rpm: z.number(),
+  averageCpm: z.number(),
+  averagePlaybackBasedCpm: z.number(),
+  rpmChangePercent: z.number().optional(),
+  cpmChangePercent: z.number().optional(),
+  bestDay: dailyRevenuePointSchema.optional(),
+  daily: z.array(dailyRevenuePointSchema)
+});
+
+export const revenueRowSchema = z.object({
+  key: z.string(),
+  metrics: z.record(z.number())
+});
@@ -1,7 +1,11 @@
 import { z } from "zod";
 import { ToolConfig, ToolContext } from '../../types.js';
+import { accountParam, formatParam } from './common-schemas.js';
+import { retentionAnalysisSchema, dropOffPointSchema } from './output-schemas.js';
 import { parseAnalyticsResponse } from '../../utils/parsers/analytics.js';
-import { analyzeAudienceRetention, formatAudienceRetention, findDropOffPoints, formatRetentionDropoffs } from '../../utils/formatters/performance.js';
+import { analyzeAudienceRetention, formatAudienceRetention, findDropOffPoints, formatRetentionDropoffs, retentionTables, dropOffTable } from '../../utils/formatters/performance.js';
+import { renderOutput } from '../../utils/formatters/renderers.js';
+import { toolErrorResult } from '../../utils/tool-errors.js';
 
 
 export const performanceTools: ToolConfig[] = [
@@ -12,11 +16,19 @@ export const performanceTools: ToolConfig[] = [
     schema: z.object({
       videoId: z.string().describe("Video ID to analyze"),
       startDate: z.string().describe("Start date (YYYY-MM-DD)"),
-      endDate: z.string().describe("End date (YYYY-MM-DD)")
+      endDate: z.string().describe("End date (YYYY-MM-DD)"),
+      format: formatParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      videoId: z.string(),
+      startDate: z.string(),
+      endDate: z.string(),
+      analysis: retentionAnalysisSchema
     }),
-    handler: async ({ videoId, startDate, endDate }, { getYouTubeClient }: ToolContext) => {
+    handler: async ({ videoId, startDate, endDate, format, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
+        const youtubeClient = await getYouTubeClient(account);
         const rawData = await youtubeClient.getAudienceRetention({ 
           videoId, startDate, endDate, metrics: [] 
         });
@@ -24,24 +36,24 @@ export const performanceTools: ToolConfig[] = [
         // Parse and analyze the data
         const parsedData = parseAnalyticsResponse(rawData);
         const analysis = analyzeAudienceRetention(parsedData);
-        const formattedText = formatAudienceRetention(analysis);
         
-        return {
-          content: [{
-            type: "text",
-            text: `Audience Retention for video ${videoId} (${startDate} to ${endDate}):
+        const structuredContent = { videoId, startDate, endDate, analysis };
 
-${formattedText}`
-          }]
-        };
-      } catch (error) {
         return {
           content: [{
             type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => `Audience Retention for video ${videoId} (${startDate} to ${endDate}):
+
+${formatAudienceRetention(analysis)}`,
+              tables: () => retentionTables(analysis),
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
@@ -53,11 +65,20 @@ ${formattedText}`
       videoId: z.string().describe("Video ID to analyze"),
       startDate: z.string().describe("Start date (YYYY-MM-DD)"),
       endDate: z.string().describe("End date (YYYY-MM-DD)"),
-      threshold: z.number().optional().default(0.1).describe("Drop threshold (default 0.1 = 10%)")
+      threshold: z.number().optional().default(0.1).describe("Drop threshold (default 0.1 = 10%)"),
+      format: formatParam,
+      account: accountParam
     }),
-    handler: async ({ videoId, startDate, endDate, threshold }, { getYouTubeClient }: ToolContext) => {
+    outputSchema: z.object({
+      videoId: z.string(),
+      startDate: z.string(),
+      endDate: z.string(),
+      threshold: z.number(),
+      dropOffPoints: z.array(dropOffPointSchema)
+    }),
+    handler: async ({ videoId, startDate, endDate, threshold, format, account }, { getYouTubeClient }: ToolContext) => {
       try {
-        const youtubeClient = await getYouTubeClient();
+        const youtubeClient = await getYouTubeClient(account);
         const rawData = await youtubeClient.getAudienceRetention({ 
           videoId, startDate, endDate, metrics: [] 
         });
@@ -65,24 +86,24 @@ ${formattedText}`
         // Parse and analyze the data
         const parsedData = parseAnalyticsResponse(rawData);
         const dropOffPoints = findDropOffPoints(parsedData, threshold);
-        const formattedText = formatRetentionDropoffs(dropOffPoints);
         
-        return {
-          content: [{
-            type: "text",
-            text: `Retention Drop-off Points for video ${videoId}:
+        const structuredContent = { videoId, startDate, endDate, threshold, dropOffPoints };
 
-${formattedText}`
-          }]
-        };
-      } catch (error) {
         return {
           content: [{
             type: "text",
-            text: `Error: ${error instanceof Error ? error.message : String(error)}`
+            text: renderOutput(format, {
+              text: () => `Retention Drop-off Points for video ${videoId}:
+
+${formatRetentionDropoffs(dropOffPoints)}`,
+              tables: () => [dropOffTable(dropOffPoints)],
+              data: structuredContent
+            })
           }],
-          isError: true
+          structuredContent
         };
+      } catch (error) {
+        return toolErrorResult(error);
       }
     },
   },
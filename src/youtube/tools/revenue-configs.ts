@@ -0,0 +1,192 @@
+import { z } from "zod";
+import { ToolConfig, ToolContext } from '../../types.js';
+import { YT_ANALYTICS_MONETARY_SCOPE } from '../../auth/scopes.js';
+import { accountParam, channelParam, formatParam } from './common-schemas.js';
+import { revenueTrendSchema, revenueRowSchema } from './output-schemas.js';
+import { parseAnalyticsResponse, parseRevenueRows } from '../../utils/parsers/analytics.js';
+import { analyzeRevenueTrends, formatRevenueTrends, formatRevenueBreakdown, revenueTrendTables, revenueBreakdownTable } from '../../utils/formatters/revenue.js';
+import { renderOutput } from '../../utils/formatters/renderers.js';
+import { toolErrorResult } from '../../utils/tool-errors.js';
+
+
+export const revenueTools: ToolConfig[] = [
+  {
+    name: "get_revenue_metrics",
+    description: "Get revenue over time (estimated, ad, Premium and gross revenue, CPM, playback-based CPM, monetized playbacks) with RPM/CPM trends",
+    category: "revenue",
+    requiredScopes: [YT_ANALYTICS_MONETARY_SCOPE],
+    schema: z.object({
+      startDate: z.string().describe("Start date (YYYY-MM-DD)"),
+      endDate: z.string().describe("End date (YYYY-MM-DD)"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      analysis: revenueTrendSchema
+    }),
+    handler: async ({ startDate, endDate, format, channel, account }, { getYouTubeClient }: ToolContext) => {
+      try {
+        const youtubeClient = await getYouTubeClient(account);
+        const rawData = await youtubeClient.getRevenueMetrics({ startDate, endDate, channelId: channel });
+        
+        // Parse and analyze the data
+        const parsedData = parseAnalyticsResponse(rawData);
+        const analysis = analyzeRevenueTrends(parseRevenueRows(parsedData));
+        
+        const structuredContent = { startDate, endDate, analysis };
+
+        return {
+          content: [{
+            type: "text",
+            text: renderOutput(format, {
+              text: () => `Revenue Metrics (${startDate} to ${endDate}):\n\n${formatRevenueTrends(analysis)}`,
+              tables: () => revenueTrendTables(analysis),
+              data: structuredContent
+            })
+          }],
+          structuredContent
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+  {
+    name: "get_revenue_by_video",
+    description: "Get top-earning videos with revenue, CPM and monetized playbacks per video",
+    category: "revenue",
+    requiredScopes: [YT_ANALYTICS_MONETARY_SCOPE],
+    schema: z.object({
+      startDate: z.string().describe("Start date (YYYY-MM-DD)"),
+      endDate: z.string().describe("End date (YYYY-MM-DD)"),
+      maxResults: z.number().optional().default(25).describe("Number of videos to return (default 25, max 200)"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      rows: z.array(revenueRowSchema)
+    }),
+    handler: async ({ startDate, endDate, maxResults = 25, format, channel, account }, { getYouTubeClient }: ToolContext) => {
+      try {
+        const youtubeClient = await getYouTubeClient(account);
+        const rawData = await youtubeClient.getRevenueByVideo({
+          startDate,
+          endDate,
+          channelId: channel,
+          maxResults: Math.min(maxResults, 200)
+        });
+        
+        const parsedData = parseAnalyticsResponse(rawData);
+        const rows = parseRevenueRows(parsedData);
+        
+        const structuredContent = { startDate, endDate, rows };
+
+        return {
+          content: [{
+            type: "text",
+            text: renderOutput(format, {
+              text: () => `Revenue by Video (${startDate} to ${endDate}):\n\n${formatRevenueBreakdown(rows, 'Video')}`,
+              tables: () => [revenueBreakdownTable(rows, 'Video')],
+              data: structuredContent
+            })
+          }],
+          structuredContent
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+  {
+    name: "get_revenue_by_country",
+    description: "Get revenue, RPM and CPM broken down by viewer country",
+    category: "revenue",
+    requiredScopes: [YT_ANALYTICS_MONETARY_SCOPE],
+    schema: z.object({
+      startDate: z.string().describe("Start date (YYYY-MM-DD)"),
+      endDate: z.string().describe("End date (YYYY-MM-DD)"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      rows: z.array(revenueRowSchema)
+    }),
+    handler: async ({ startDate, endDate, format, channel, account }, { getYouTubeClient }: ToolContext) => {
+      try {
+        const youtubeClient = await getYouTubeClient(account);
+        const rawData = await youtubeClient.getRevenueByCountry({ startDate, endDate, channelId: channel });
+        
+        const parsedData = parseAnalyticsResponse(rawData);
+        const rows = parseRevenueRows(parsedData);
+        
+        const structuredContent = { startDate, endDate, rows };
+
+        return {
+          content: [{
+            type: "text",
+            text: renderOutput(format, {
+              text: () => `Revenue by Country (${startDate} to ${endDate}):\n\n${formatRevenueBreakdown(rows, 'Country')}`,
+              tables: () => [revenueBreakdownTable(rows, 'Country')],
+              data: structuredContent
+            })
+          }],
+          structuredContent
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+  {
+    name: "get_revenue_by_ad_type",
+    description: "Get gross revenue, ad impressions and CPM broken down by ad type",
+    category: "revenue",
+    requiredScopes: [YT_ANALYTICS_MONETARY_SCOPE],
+    schema: z.object({
+      startDate: z.string().describe("Start date (YYYY-MM-DD)"),
+      endDate: z.string().describe("End date (YYYY-MM-DD)"),
+      format: formatParam,
+      channel: channelParam,
+      account: accountParam
+    }),
+    outputSchema: z.object({
+      startDate: z.string(),
+      endDate: z.string(),
+      rows: z.array(revenueRowSchema)
+    }),
+    handler: async ({ startDate, endDate, format, channel, account }, { getYouTubeClient }: ToolContext) => {
+      try {
+        const youtubeClient = await getYouTubeClient(account);
+        const rawData = await youtubeClient.getRevenueByAdType({ startDate, endDate, channelId: channel });
+        
+        const parsedData = parseAnalyticsResponse(rawData);
+        const rows = parseRevenueRows(parsedData);
+        
+        const structuredContent = { startDate, endDate, rows };
+
+        return {
+          content: [{
+            type: "text",
+            text: renderOutput(format, {
+              text: () => `Revenue by Ad Type (${startDate} to ${endDate}):\n\n${formatRevenueBreakdown(rows, 'Ad Type')}`,
+              tables: () => [revenueBreakdownTable(rows, 'Ad Type')],
+              data: structuredContent
+            })
+          }],
+          structuredContent
+        };
+      } catch (error) {
+        return toolErrorResult(error);
+      }
+    },
+  },
+];
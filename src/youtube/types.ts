@@ -1,3 +1,29 @@
+import { QuotaTracker } from './quota-tracker.js';
+import { RequestScheduler } from './request-scheduler.js';
+import { ResponseCache } from './response-cache.js';
+
+export interface YouTubeClientOptions {
+  // CMS content owner ID; switches reports to ids=contentOwner==X and Data API calls to onBehalfOfContentOwner
+  contentOwner?: string;
+  // Shared response cache; entries are partitioned by cacheScope (the account's channel ID)
+  cache?: ResponseCache;
+  cacheScope?: string;
+  // Shared quota tracker; requests are refused once they would exceed its budget
+  quota?: QuotaTracker;
+  // Shared concurrency and rate limiter; identical in-flight requests of one cacheScope are sent once
+  scheduler?: RequestScheduler;
+}
+
+// Per-call state for a single tool invocation
+export interface RequestContext {
+  // Aborts in-flight API requests and retry waits when the MCP client cancels
+  signal?: AbortSignal;
+  // Called after each API sub-request completes and before each retry wait
+  onProgress?: (message: string) => void;
+  // Tool (or resource) that issued the requests, for quota accounting
+  toolName?: string;
+}
+
 export interface AnalyticsParams {
   startDate: string;
   endDate: string;
@@ -6,6 +32,7 @@ export interface AnalyticsParams {
   filters?: string;
   maxResults?: number;
   sort?: string;
+  channelId?: string;
 }
 
 export interface VideoAnalyticsParams extends AnalyticsParams {
@@ -62,7 +89,10 @@ export interface VideoInfo {
     commentCount: string;
   };
   contentDetails: {
+    // ISO 8601, e.g. PT4M13S
     duration: string;
+    // Parsed from duration; absent for live streams that have not ended
+    durationSeconds?: number;
     dimension: string;
     definition: string;
     caption: string;
@@ -74,6 +104,71 @@ export interface VideoInfo {
   };
 }
 
+export interface VideoDetailsBatch {
+  videos: VideoInfo[];
+  // Requested IDs that were deleted, private to another channel or never existed
+  notFound: string[];
+}
+
+export interface OwnedChannel {
+  id: string;
+  title: string;
+  customUrl?: string;
+  subscriberCount: string;
+  viewCount: string;
+  videoCount: string;
+}
+
+export interface VideoSummary {
+  videoId: string;
+  title: string;
+  publishedAt?: string;
+}
+
+export interface PlaylistSummary {
+  id: string;
+  title: string;
+  itemCount: number;
+}
+
+// A video from the channel's uploads playlist, enriched with videos.list data
+export interface UploadedVideo {
+  videoId: string;
+  title: string;
+  description: string;
+  publishedAt: string;
+  // public, unlisted or private
+  privacyStatus: string;
+  // Scheduled videos are private until this time
+  publishAt?: string;
+  duration?: string;
+  viewCount?: string;
+  likeCount?: string;
+  commentCount?: string;
+  thumbnailUrl?: string;
+  liveBroadcastContent?: string;
+}
+
+export const VIDEO_PRIVACY_FILTERS = ['all', 'public', 'unlisted', 'private', 'scheduled'] as const;
+
+export type VideoPrivacyFilter = typeof VIDEO_PRIVACY_FILTERS[number];
+
+export interface UploadFilters {
+  // Case-insensitive match against the title
+  query?: string;
+  startDate?: string;
+  endDate?: string;
+  privacyStatus?: VideoPrivacyFilter;
+}
+
+export interface UploadPage {
+  videos: UploadedVideo[];
+  // Matches across all pages
+  totalResults: number;
+  // Pass back as cursor to get the next page; absent on the last page
+  nextCursor?: string;
+}
+
 export interface SearchResult {
   kind: string;
   etag: string;
@@ -100,20 +195,86 @@ export interface SearchResult {
 }
 
 // YouTube API Error types
-export class QuotaExceededError extends Error {
-  constructor(quotaType: string) {
-    super(`YouTube API quota exceeded: ${quotaType}`);
+export type ApiErrorKind =
+  | 'quota'
+  | 'rateLimit'
+  | 'server'
+  | 'network'
+  | 'auth'
+  | 'permission'
+  | 'notFound'
+  | 'invalidRequest'
+  | 'unknown';
+
+export interface ApiErrorDetails {
+  kind: ApiErrorKind;
+  // Whether sending the same request again may succeed
+  retryable: boolean;
+  httpStatus?: number;
+  // Google's error reason, e.g. quotaExceeded or forbidden
+  reason?: string;
+  // Server-requested wait from a Retry-After header
+  retryAfterMs?: number;
+}
+
+/**
+ * A failed YouTube Data or Analytics API request, classified by the retry policy.
+ * The original error is kept as cause.
+ */
+export class YouTubeApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly retryable: boolean;
+  readonly httpStatus?: number;
+  readonly reason?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: ApiErrorDetails, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'YouTubeApiError';
+    this.kind = details.kind;
+    this.retryable = details.retryable;
+    this.httpStatus = details.httpStatus;
+    this.reason = details.reason;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+}
+
+// The project's daily Google quota is used up; retrying before the reset cannot succeed
+export class QuotaExceededError extends YouTubeApiError {
+  constructor(details: Omit<ApiErrorDetails, 'kind' | 'retryable'>, options?: { cause?: unknown }) {
+    super('YouTube API daily quota exceeded. Quota resets at midnight Pacific time.', { ...details, kind: 'quota', retryable: false }, options);
     this.name = 'QuotaExceededError';
   }
 }
 
-export class RateLimitError extends Error {
-  constructor(message: string) {
-    super(message);
+export class RateLimitError extends YouTubeApiError {
+  constructor(message: string, details: Omit<ApiErrorDetails, 'kind' | 'retryable'>, options?: { cause?: unknown }) {
+    super(message, { ...details, kind: 'rateLimit', retryable: true }, options);
     this.name = 'RateLimitError';
   }
 }
 
+export class ApiAuthenticationError extends YouTubeApiError {
+  constructor(details: Omit<ApiErrorDetails, 'kind' | 'retryable'>, options?: { cause?: unknown }) {
+    super('Authentication failed. Please re-authenticate.', { ...details, kind: 'auth', retryable: false }, options);
+    this.name = 'ApiAuthenticationError';
+  }
+}
+
+// Raised before sending a request that would exceed the configured daily quota budget
+export class QuotaBudgetExceededError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly cost: number,
+    public readonly used: number,
+    public readonly budget: number,
+    public readonly resetsAt: string
+  ) {
+    super(`Quota budget exceeded: ${endpoint} costs ${cost} unit${cost === 1 ? '' : 's'}, but ${used} of the ${budget}-unit daily budget are already used. The budget resets at ${resetsAt} (midnight Pacific time).`);
+    this.name = 'QuotaBudgetExceededError';
+  }
+}
+
 // Channel Health Check types
 export interface ChannelOverviewMetrics {
   views: number;
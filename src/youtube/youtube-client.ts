@@ -1,15 +1,24 @@
-import { OAuth2Client } from 'google-auth-library';
-import { google, youtube_v3, youtubeAnalytics_v2 } from 'googleapis';
+import { youtube_v3, youtubeAnalytics_v2 } from 'googleapis';
+import { YouTubeBackend, YouTubeBackendFactory } from './backend.js';
 import {
   AnalyticsParams,
   ChannelInfo,
   ComparisonResult,
   DemographicsParams,
-  QuotaExceededError,
-  RateLimitError,
+  OwnedChannel,
+  PlaylistSummary,
+  QuotaBudgetExceededError,
+  RequestContext,
   RetentionParams,
   SearchResult,
-  VideoInfo
+  UploadedVideo,
+  UploadFilters,
+  UploadPage,
+  VideoDetailsBatch,
+  VideoInfo,
+  VideoSummary,
+  YouTubeApiError,
+  YouTubeClientOptions
 } from './types.js';
 import {
   transformThumbnails,
@@ -17,28 +26,62 @@ import {
   transformSearchThumbnails,
   transformRegionRestriction
 } from '../utils/transformers/thumbnails.js';
+import { filterUploads, paginate } from '../utils/transformers/uploads.js';
+import { parseIsoDuration } from '../utils/transformers/duration.js';
+import { createLogger } from '../utils/logger.js';
+import { ToolError } from '../utils/tool-errors.js';
+import { assertDateRange } from '../utils/validators.js';
+import { recordApiCall, recordApiError, recordApiRetry } from './api-stats.js';
+import { classifyApiError, DEFAULT_RETRY_POLICY, getRetryDelay, RetryPolicy, toYouTubeApiError } from './retry-policy.js';
+import { buildRequestKey } from './response-cache.js';
+
+const log = createLogger('youtube');
+
+// videos.list and playlistItems.list accept at most 50 IDs or results per call
+const MAX_IDS_PER_REQUEST = 50;
 
 export class YouTubeClient {
-  private youtube: youtube_v3.Youtube;
-  private youtubeAnalytics: youtubeAnalytics_v2.Youtubeanalytics;
+  private youtube: YouTubeBackend['youtube'];
+  private youtubeAnalytics: YouTubeBackend['youtubeAnalytics'];
+
+  /**
+   * @param backend Creates the API clients; createGoogleBackend(auth) for the real APIs,
+   * createFakeBackend(fixtures) for offline development
+   */
+  constructor(
+    private readonly backend: YouTubeBackendFactory,
+    private readonly options: YouTubeClientOptions = {},
+    private readonly context: RequestContext = {}
+  ) {
+    const apis = backend(context.signal);
+    this.youtube = apis.youtube;
+    this.youtubeAnalytics = apis.youtubeAnalytics;
+  }
 
-  constructor(auth: OAuth2Client) {
-    this.youtube = google.youtube({ version: 'v3', auth });
-    this.youtubeAnalytics = google.youtubeAnalytics({ version: 'v2', auth });
+  /**
+   * Returns a client sharing this client's backend and options, bound to one tool call's
+   * cancellation signal and progress callback.
+   */
+  withContext(context: RequestContext): YouTubeClient {
+    return new YouTubeClient(this.backend, this.options, context);
+  }
+
+  getContentOwner(): string | undefined {
+    return this.options.contentOwner;
   }
 
   // YouTube Data API methods
-  async getChannelInfo(): Promise<ChannelInfo> {
+  async getChannelInfo(channelId?: string): Promise<ChannelInfo> {
     try {
-      const response = await this.withRetry(async () => {
-        return await this.youtube.channels.list({
-          part: ['snippet', 'statistics'],
-          mine: true
-        });
-      });
+      const response = await this.cachedRequest('youtube.channels.list', {
+        part: ['snippet', 'statistics'],
+        ...this.getChannelSelector(channelId)
+      }, params => this.youtube.channels.list(params));
 
       if (!response.data.items || response.data.items.length === 0) {
-        throw new Error('No channel found for the authenticated user');
+        throw channelId
+          ? new ToolError('NOT_FOUND', `Channel not found: ${channelId}`)
+          : new ToolError('NOT_FOUND', 'No YouTube channel found for the authenticated Google account', 'Create a YouTube channel for this Google account, or sign in with the account that owns the channel.');
       }
 
       const channel = response.data.items[0];
@@ -65,17 +108,103 @@ export class YouTubeClient {
     }
   }
 
-  async searchVideos(query: string, maxResults: number = 25): Promise<SearchResult[]> {
+  async listOwnedChannels(): Promise<OwnedChannel[]> {
+    if (!this.options.contentOwner) {
+      throw new ToolError('INVALID_ARGUMENT', 'list_owned_channels requires content owner mode.', 'Set YOUTUBE_MCP_CONTENT_OWNER or pass --content-owner, then restart the server.');
+    }
+
     try {
-      const response = await this.withRetry(async () => {
-        return await this.youtube.search.list({
-          part: ['snippet'],
-          q: query,
-          type: ['video'],
-          maxResults,
-          order: 'relevance'
+      const channels: OwnedChannel[] = [];
+      let pageToken: string | undefined;
+
+      do {
+        const response = await this.cachedRequest('youtube.channels.list', {
+          part: ['snippet', 'statistics'],
+          managedByMe: true,
+          onBehalfOfContentOwner: this.options.contentOwner,
+          maxResults: 50,
+          pageToken
+        }, params => this.youtube.channels.list(params));
+
+        response.data.items?.forEach(channel => {
+          channels.push({
+            id: channel.id!,
+            title: channel.snippet?.title || channel.id!,
+            customUrl: channel.snippet?.customUrl || undefined,
+            subscriberCount: channel.statistics?.subscriberCount || '0',
+            viewCount: channel.statistics?.viewCount || '0',
+            videoCount: channel.statistics?.videoCount || '0'
+          });
         });
-      });
+
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      return channels;
+    } catch (error) {
+      this.handleApiError(error);
+      throw error;
+    }
+  }
+
+  // Reads the channel's uploads playlist, newest first (1 quota unit per call instead of 100 for search)
+  async listRecentUploads(maxResults: number = 50, channelId?: string): Promise<VideoSummary[]> {
+    try {
+      const uploadsPlaylistId = await this.getUploadsPlaylistId(channelId);
+      if (!uploadsPlaylistId) {
+        return [];
+      }
+
+      const response = await this.cachedRequest('youtube.playlistItems.list', {
+        part: ['snippet', 'contentDetails'],
+        playlistId: uploadsPlaylistId,
+        maxResults: Math.min(maxResults, 50),
+        onBehalfOfContentOwner: this.options.contentOwner
+      }, params => this.youtube.playlistItems.list(params));
+
+      return response.data.items?.map(item => ({
+        videoId: item.contentDetails?.videoId || item.snippet!.resourceId!.videoId!,
+        title: item.snippet?.title || '',
+        publishedAt: item.contentDetails?.videoPublishedAt || item.snippet?.publishedAt || undefined
+      })) || [];
+    } catch (error) {
+      this.handleApiError(error);
+      throw error;
+    }
+  }
+
+  async listPlaylists(maxResults: number = 50, channelId?: string): Promise<PlaylistSummary[]> {
+    try {
+      const selector = channelId
+        ? { channelId, onBehalfOfContentOwner: this.options.contentOwner }
+        : this.getChannelSelector();
+
+      const response = await this.cachedRequest('youtube.playlists.list', {
+        part: ['snippet', 'contentDetails'],
+        maxResults: Math.min(maxResults, 50),
+        ...selector
+      }, params => this.youtube.playlists.list(params));
+
+      return response.data.items?.map(playlist => ({
+        id: playlist.id!,
+        title: playlist.snippet?.title || '',
+        itemCount: playlist.contentDetails?.itemCount || 0
+      })) || [];
+    } catch (error) {
+      this.handleApiError(error);
+      throw error;
+    }
+  }
+
+  async searchVideos(query: string, maxResults: number = 25): Promise<SearchResult[]> {
+    try {
+      const response = await this.cachedRequest('youtube.search.list', {
+        part: ['snippet'],
+        q: query,
+        type: ['video'],
+        maxResults,
+        order: 'relevance'
+      }, params => this.youtube.search.list(params));
 
       return response.data.items?.map(item => ({
         kind: item.kind!,
@@ -104,48 +233,38 @@ export class YouTubeClient {
   }
 
   async getVideoDetails(videoId: string): Promise<VideoInfo> {
+    const { videos } = await this.getVideoDetailsBatch([videoId]);
+    if (videos.length === 0) {
+      throw new ToolError('NOT_FOUND', `Video not found: ${videoId}`);
+    }
+    return videos[0];
+  }
+
+  /**
+   * Fetches snippet, statistics and content details for any number of videos,
+   * MAX_IDS_PER_REQUEST IDs per videos.list call. Results keep the requested order.
+   */
+  async getVideoDetailsBatch(videoIds: string[]): Promise<VideoDetailsBatch> {
     try {
-      const response = await this.withRetry(async () => {
-        return await this.youtube.videos.list({
+      const uniqueIds = [...new Set(videoIds.map(id => id.trim()).filter(Boolean))];
+      const found = new Map<string, VideoInfo>();
+
+      for (let i = 0; i < uniqueIds.length; i += MAX_IDS_PER_REQUEST) {
+        const response = await this.cachedRequest('youtube.videos.list', {
           part: ['snippet', 'statistics', 'contentDetails'],
-          id: [videoId]
-        });
-      });
+          id: uniqueIds.slice(i, i + MAX_IDS_PER_REQUEST),
+          maxResults: MAX_IDS_PER_REQUEST,
+          onBehalfOfContentOwner: this.options.contentOwner
+        }, params => this.youtube.videos.list(params));
 
-      if (!response.data.items || response.data.items.length === 0) {
-        throw new Error(`Video not found: ${videoId}`);
+        response.data.items?.forEach(video => {
+          found.set(video.id!, this.toVideoInfo(video));
+        });
       }
 
-      const video = response.data.items[0];
       return {
-        id: video.id!,
-        snippet: {
-          publishedAt: video.snippet!.publishedAt!,
-          channelId: video.snippet!.channelId!,
-          title: video.snippet!.title!,
-          description: video.snippet!.description!,
-          thumbnails: transformVideoThumbnails(video.snippet!.thumbnails!),
-          channelTitle: video.snippet!.channelTitle!,
-          tags: video.snippet!.tags || undefined,
-          categoryId: video.snippet!.categoryId!,
-          liveBroadcastContent: video.snippet!.liveBroadcastContent!,
-          defaultLanguage: video.snippet!.defaultLanguage || undefined,
-          defaultAudioLanguage: video.snippet!.defaultAudioLanguage || undefined
-        },
-        statistics: {
-          viewCount: video.statistics!.viewCount!,
-          likeCount: video.statistics!.likeCount!,
-          favoriteCount: video.statistics!.favoriteCount!,
-          commentCount: video.statistics!.commentCount!
-        },
-        contentDetails: {
-          duration: video.contentDetails!.duration!,
-          dimension: video.contentDetails!.dimension!,
-          definition: video.contentDetails!.definition!,
-          caption: video.contentDetails!.caption!,
-          licensedContent: video.contentDetails!.licensedContent!,
-          regionRestriction: transformRegionRestriction(video.contentDetails!.regionRestriction)
-        }
+        videos: uniqueIds.filter(id => found.has(id)).map(id => found.get(id)!),
+        notFound: uniqueIds.filter(id => !found.has(id))
       };
     } catch (error) {
       this.handleApiError(error);
@@ -153,104 +272,70 @@ export class YouTubeClient {
     }
   }
 
-  async getChannelVideos(maxResults: number = 50): Promise<SearchResult[]> {
+  // The newest uploads (up to 50), from one page of the uploads playlist rather than search.list
+  async getChannelVideos(maxResults: number = 50, channelId?: string): Promise<UploadedVideo[]> {
+    const recent = await this.listRecentUploads(maxResults, channelId);
     try {
-      // First get the channel info to get the channel ID
-      const channelInfo = await this.getChannelInfo();
-      
-      const response = await this.withRetry(async () => {
-        return await this.youtube.search.list({
-          part: ['snippet'],
-          channelId: channelInfo.id,
-          type: ['video'],
-          maxResults,
-          order: 'date'
-        });
-      });
-
-      return response.data.items?.map(item => ({
-        kind: item.kind!,
-        etag: item.etag!,
-        id: {
-          kind: item.id!.kind!,
-          videoId: item.id!.videoId || undefined,
-          channelId: item.id!.channelId || undefined,
-          playlistId: item.id!.playlistId || undefined
-        },
-        snippet: {
-          publishedAt: item.snippet!.publishedAt!,
-          channelId: item.snippet!.channelId!,
-          title: item.snippet!.title!,
-          description: item.snippet!.description!,
-          thumbnails: transformSearchThumbnails(item.snippet!.thumbnails!),
-          channelTitle: item.snippet!.channelTitle!,
-          liveBroadcastContent: item.snippet!.liveBroadcastContent!,
-          publishTime: item.snippet!.publishedAt!
-        }
-      })) || [];
+      const videos = await this.fetchVideos(recent.map(upload => upload.videoId));
+      return videos.sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
     } catch (error) {
       this.handleApiError(error);
       throw error;
     }
   }
 
-  async searchChannelVideos(params: {
-    query?: string;
-    startDate?: string;
-    endDate?: string;
+  /**
+   * Filters the channel's full upload catalog by title, publish date and privacy status
+   * and returns one page of matches. Cursors are only valid with the same filters.
+   */
+  async searchChannelVideos(params: UploadFilters & {
     maxResults?: number;
-  }): Promise<SearchResult[]> {
+    cursor?: string;
+    channelId?: string;
+  }): Promise<UploadPage> {
+    const { maxResults = 25, cursor, channelId, ...filters } = params;
+    const matches = filterUploads(await this.listAllUploads(channelId), filters);
+    const page = paginate(matches, maxResults, cursor);
+    return {
+      videos: page.items,
+      totalResults: matches.length,
+      nextCursor: page.nextCursor
+    };
+  }
+
+  /**
+   * Pages through the whole uploads playlist and enriches every video with status,
+   * statistics and duration, newest first. Unlike search.list this includes unlisted
+   * and private videos and is not capped at 500 results, at about 2 quota units per 50 videos.
+   */
+  async listAllUploads(channelId?: string): Promise<UploadedVideo[]> {
     try {
-      const { query, startDate, endDate, maxResults = 25 } = params;
-      
-      // First get the channel info to get the channel ID
-      const channelInfo = await this.getChannelInfo();
-      
-      // Convert dates to RFC 3339 format if provided
-      let publishedAfter: string | undefined;
-      let publishedBefore: string | undefined;
-      
-      if (startDate) {
-        publishedAfter = new Date(startDate + 'T00:00:00Z').toISOString();
-      }
-      
-      if (endDate) {
-        publishedBefore = new Date(endDate + 'T23:59:59Z').toISOString();
+      const uploadsPlaylistId = await this.getUploadsPlaylistId(channelId);
+      if (!uploadsPlaylistId) {
+        return [];
       }
 
-      const response = await this.withRetry(async () => {
-        return await this.youtube.search.list({
-          part: ['snippet'],
-          channelId: channelInfo.id,
-          type: ['video'],
-          maxResults,
-          order: 'date',
-          q: query,
-          publishedAfter,
-          publishedBefore
+      const videoIds: string[] = [];
+      let pageToken: string | undefined;
+      do {
+        const response = await this.cachedRequest('youtube.playlistItems.list', {
+          part: ['contentDetails'],
+          playlistId: uploadsPlaylistId,
+          maxResults: MAX_IDS_PER_REQUEST,
+          pageToken,
+          onBehalfOfContentOwner: this.options.contentOwner
+        }, params => this.youtube.playlistItems.list(params));
+
+        response.data.items?.forEach(item => {
+          if (item.contentDetails?.videoId) {
+            videoIds.push(item.contentDetails.videoId);
+          }
         });
-      });
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
 
-      return response.data.items?.map(item => ({
-        kind: item.kind!,
-        etag: item.etag!,
-        id: {
-          kind: item.id!.kind!,
-          videoId: item.id!.videoId || undefined,
-          channelId: item.id!.channelId || undefined,
-          playlistId: item.id!.playlistId || undefined
-        },
-        snippet: {
-          publishedAt: item.snippet!.publishedAt!,
-          channelId: item.snippet!.channelId!,
-          title: item.snippet!.title!,
-          description: item.snippet!.description!,
-          thumbnails: transformSearchThumbnails(item.snippet!.thumbnails!),
-          channelTitle: item.snippet!.channelTitle!,
-          liveBroadcastContent: item.snippet!.liveBroadcastContent!,
-          publishTime: item.snippet!.publishedAt!
-        }
-      })) || [];
+      const videos = await this.fetchVideos(videoIds);
+      return videos.sort((a, b) => b.publishedAt.localeCompare(a.publishedAt));
     } catch (error) {
       this.handleApiError(error);
       throw error;
@@ -260,17 +345,14 @@ export class YouTubeClient {
   // YouTube Analytics API methods
   async getChannelAnalytics(params: AnalyticsParams): Promise<any> {
     try {
-      const response = await this.withRetry(async () => {
-        return await this.youtubeAnalytics.reports.query({
-          startDate: params.startDate,
-          endDate: params.endDate,
-          metrics: params.metrics.join(','),
-          dimensions: params.dimensions?.join(','),
-          filters: params.filters,
-          maxResults: params.maxResults,
-          sort: params.sort,
-          ids: 'channel==MINE'
-        });
+      const response = await this.queryReport({
+        startDate: params.startDate,
+        endDate: params.endDate,
+        metrics: params.metrics.join(','),
+        dimensions: params.dimensions?.join(','),
+        maxResults: params.maxResults,
+        sort: params.sort,
+        ...this.getReportScope(params.channelId, params.filters)
       });
 
       return {
@@ -286,17 +368,14 @@ export class YouTubeClient {
 
   async getVideoAnalytics(videoId: string, params: AnalyticsParams): Promise<any> {
     try {
-      const response = await this.withRetry(async () => {
-        return await this.youtubeAnalytics.reports.query({
-          startDate: params.startDate,
-          endDate: params.endDate,
-          metrics: params.metrics.join(','),
-          dimensions: params.dimensions?.join(','),
-          filters: `video==${videoId}`,
-          maxResults: params.maxResults,
-          sort: params.sort,
-          ids: 'channel==MINE'
-        });
+      const response = await this.queryReport({
+        startDate: params.startDate,
+        endDate: params.endDate,
+        metrics: params.metrics.join(','),
+        dimensions: params.dimensions?.join(','),
+        maxResults: params.maxResults,
+        sort: params.sort,
+        ...this.getReportScope(params.channelId, `video==${videoId}`)
       });
 
       return {
@@ -312,17 +391,15 @@ export class YouTubeClient {
   }
 
   // Channel Health Check methods
-  async getChannelOverview(params: { startDate: string; endDate: string }): Promise<any> {
+  async getChannelOverview(params: { startDate: string; endDate: string; channelId?: string }): Promise<any> {
     try {
-      const response = await this.withRetry(async () => {
-        return await this.youtubeAnalytics.reports.query({
-          startDate: params.startDate,
-          endDate: params.endDate,
-          metrics: 'views,estimatedMinutesWatched,averageViewDuration,averageViewPercentage,subscribersGained,subscribersLost',
-          dimensions: 'day',
-          ids: 'channel==MINE',
-          sort: 'day'
-        });
+      const response = await this.queryReport({
+        startDate: params.startDate,
+        endDate: params.endDate,
+        metrics: 'views,estimatedMinutesWatched,averageViewDuration,averageViewPercentage,subscribersGained,subscribersLost',
+        dimensions: 'day',
+        sort: 'day',
+        ...this.getReportScope(params.channelId)
       });
 
       return {
@@ -343,30 +420,27 @@ export class YouTubeClient {
     period1End: string;
     period2Start: string;
     period2End: string;
+    channelId?: string;
   }): Promise<ComparisonResult<any>> {
     try {
       // Validate required parameters
       if (!params.metrics || !Array.isArray(params.metrics)) {
-        throw new Error("metrics parameter is required and must be an array");
+        throw new ToolError('INVALID_ARGUMENT', "metrics parameter is required and must be an array");
       }
 
       const [period1, period2] = await Promise.all([
-        this.withRetry(async () => {
-          return await this.youtubeAnalytics.reports.query({
-            startDate: params.period1Start,
-            endDate: params.period1End,
-            metrics: params.metrics.join(','),
-            ids: 'channel==MINE'
-          });
-        }),
-        this.withRetry(async () => {
-          return await this.youtubeAnalytics.reports.query({
-            startDate: params.period2Start,
-            endDate: params.period2End,
-            metrics: params.metrics.join(','),
-            ids: 'channel==MINE'
-          });
-        })
+        this.queryReport({
+          startDate: params.period1Start,
+          endDate: params.period1End,
+          metrics: params.metrics.join(','),
+          ...this.getReportScope(params.channelId)
+        }, ['period1Start', 'period1End']),
+        this.queryReport({
+          startDate: params.period2Start,
+          endDate: params.period2End,
+          metrics: params.metrics.join(','),
+          ...this.getReportScope(params.channelId)
+        }, ['period2Start', 'period2End'])
       ]);
 
       // Calculate percentage change for each metric
@@ -469,7 +543,7 @@ export class YouTubeClient {
     });
   }
 
-  async getOptimalPostingTime(params: { startDate: string; endDate: string }): Promise<any> {
+  async getOptimalPostingTime(params: { startDate: string; endDate: string; channelId?: string }): Promise<any> {
     // YouTube Analytics API v2 doesn't support hour dimension
     // We'll analyze by day of week and provide strategic insights
     return await this.getChannelAnalytics({
@@ -568,53 +642,255 @@ export class YouTubeClient {
     });
   }
 
+  // Revenue Analytics methods (require the yt-analytics-monetary.readonly scope)
+  async getRevenueMetrics(params: { startDate: string; endDate: string; channelId?: string }): Promise<any> {
+    return this.getChannelAnalytics({
+      ...params,
+      metrics: ['views', 'estimatedRevenue', 'estimatedAdRevenue', 'estimatedRedPartnerRevenue', 'grossRevenue', 'cpm', 'playbackBasedCpm', 'monetizedPlaybacks'],
+      dimensions: ['day'],
+      sort: 'day'
+    });
+  }
+
+  async getRevenueByVideo(params: { startDate: string; endDate: string; channelId?: string; maxResults?: number }): Promise<any> {
+    return this.getChannelAnalytics({
+      ...params,
+      metrics: ['views', 'estimatedRevenue', 'estimatedAdRevenue', 'estimatedRedPartnerRevenue', 'grossRevenue', 'cpm', 'playbackBasedCpm', 'monetizedPlaybacks'],
+      dimensions: ['video'],
+      sort: '-estimatedRevenue',
+      maxResults: params.maxResults ?? 25
+    });
+  }
+
+  async getRevenueByCountry(params: { startDate: string; endDate: string; channelId?: string }): Promise<any> {
+    return this.getChannelAnalytics({
+      ...params,
+      metrics: ['views', 'estimatedRevenue', 'estimatedAdRevenue', 'estimatedRedPartnerRevenue', 'grossRevenue', 'cpm', 'playbackBasedCpm', 'monetizedPlaybacks'],
+      dimensions: ['country'],
+      sort: '-estimatedRevenue',
+      maxResults: 50
+    });
+  }
+
+  async getRevenueByAdType(params: { startDate: string; endDate: string; channelId?: string }): Promise<any> {
+    // The adType dimension only supports ad-level metrics
+    return this.getChannelAnalytics({
+      ...params,
+      metrics: ['grossRevenue', 'adImpressions', 'cpm'],
+      dimensions: ['adType'],
+      sort: '-grossRevenue'
+    });
+  }
+
   // Utility methods
-  private async withRetry<T>(fn: () => Promise<T>, maxRetries: number = 3): Promise<T> {
-    for (let i = 0; i < maxRetries; i++) {
-      try {
-        return await fn();
-      } catch (error: any) {
-        if (i === maxRetries - 1) {
-          throw error;
-        }
+  /**
+   * Builds the report ids/filters: a content owner reports on all owned channels (optionally
+   * narrowed by a channel filter), otherwise a specific channel or the authenticated one.
+   */
+  private getReportScope(channelId?: string, filters?: string): { ids: string; filters?: string } {
+    if (this.options.contentOwner) {
+      const combined = [channelId ? `channel==${channelId}` : undefined, filters].filter(Boolean).join(';');
+      return {
+        ids: `contentOwner==${this.options.contentOwner}`,
+        filters: combined || undefined
+      };
+    }
 
-        // Check if it's a rate limit error
-        if (error.code === 429 || error.message?.includes('quotaExceeded')) {
-          const delay = Math.pow(2, i) * 1000; // Exponential backoff
-          console.log(`Rate limited, retrying in ${delay}ms...`);
-          await new Promise(resolve => setTimeout(resolve, delay));
-          continue;
-        }
+    return {
+      ids: channelId ? `channel==${channelId}` : 'channel==MINE',
+      filters
+    };
+  }
 
-        throw error;
-      }
+  private async getUploadsPlaylistId(channelId?: string): Promise<string | undefined> {
+    const response = await this.cachedRequest('youtube.channels.list', {
+      part: ['contentDetails'],
+      ...this.getChannelSelector(channelId)
+    }, params => this.youtube.channels.list(params));
+
+    return response.data.items?.[0]?.contentDetails?.relatedPlaylists?.uploads || undefined;
+  }
+
+  /**
+   * Looks up videos with videos.list in batches of MAX_IDS_PER_REQUEST IDs. Deleted videos and videos
+   * the caller cannot see are missing from the response and therefore from the result.
+   */
+  private async fetchVideos(videoIds: string[]): Promise<UploadedVideo[]> {
+    const videos: UploadedVideo[] = [];
+    for (let i = 0; i < videoIds.length; i += MAX_IDS_PER_REQUEST) {
+      const response = await this.cachedRequest('youtube.videos.list', {
+        part: ['snippet', 'status', 'statistics', 'contentDetails'],
+        id: videoIds.slice(i, i + MAX_IDS_PER_REQUEST),
+        maxResults: MAX_IDS_PER_REQUEST,
+        onBehalfOfContentOwner: this.options.contentOwner
+      }, params => this.youtube.videos.list(params));
+
+      response.data.items?.forEach(video => {
+        videos.push({
+          videoId: video.id!,
+          title: video.snippet?.title || '',
+          description: video.snippet?.description || '',
+          publishedAt: video.snippet?.publishedAt || '',
+          privacyStatus: video.status?.privacyStatus || 'unknown',
+          publishAt: video.status?.publishAt || undefined,
+          duration: video.contentDetails?.duration || undefined,
+          viewCount: video.statistics?.viewCount || undefined,
+          likeCount: video.statistics?.likeCount || undefined,
+          commentCount: video.statistics?.commentCount || undefined,
+          thumbnailUrl: video.snippet?.thumbnails?.medium?.url || video.snippet?.thumbnails?.default?.url || undefined,
+          liveBroadcastContent: video.snippet?.liveBroadcastContent || undefined
+        });
+      });
     }
-    throw new Error('Max retries exceeded');
+    return videos;
   }
 
-  private handleApiError(error: any): void {
-    if (error.code === 403) {
-      if (error.message?.includes('quotaExceeded')) {
-        throw new QuotaExceededError('Daily quota exceeded');
-      }
-      if (error.message?.includes('userRateLimitExceeded')) {
-        throw new RateLimitError('User rate limit exceeded');
+  private toVideoInfo(video: youtube_v3.Schema$Video): VideoInfo {
+    return {
+      id: video.id!,
+      snippet: {
+        publishedAt: video.snippet!.publishedAt!,
+        channelId: video.snippet!.channelId!,
+        title: video.snippet!.title!,
+        description: video.snippet!.description!,
+        thumbnails: transformVideoThumbnails(video.snippet!.thumbnails!),
+        channelTitle: video.snippet!.channelTitle!,
+        tags: video.snippet!.tags || undefined,
+        categoryId: video.snippet!.categoryId!,
+        liveBroadcastContent: video.snippet!.liveBroadcastContent!,
+        defaultLanguage: video.snippet!.defaultLanguage || undefined,
+        defaultAudioLanguage: video.snippet!.defaultAudioLanguage || undefined
+      },
+      statistics: {
+        viewCount: video.statistics!.viewCount!,
+        likeCount: video.statistics!.likeCount!,
+        favoriteCount: video.statistics!.favoriteCount!,
+        commentCount: video.statistics!.commentCount!
+      },
+      contentDetails: {
+        duration: video.contentDetails!.duration!,
+        durationSeconds: parseIsoDuration(video.contentDetails!.duration!),
+        dimension: video.contentDetails!.dimension!,
+        definition: video.contentDetails!.definition!,
+        caption: video.contentDetails!.caption!,
+        licensedContent: video.contentDetails!.licensedContent!,
+        regionRestriction: transformRegionRestriction(video.contentDetails!.regionRestriction)
       }
+    };
+  }
+
+  private getChannelSelector(channelId?: string): { id?: string[]; mine?: boolean; onBehalfOfContentOwner?: string } {
+    if (channelId) {
+      return { id: [channelId], onBehalfOfContentOwner: this.options.contentOwner };
     }
-    
-    if (error.code === 429) {
-      throw new RateLimitError('Rate limit exceeded');
+
+    if (this.options.contentOwner) {
+      throw new ToolError('INVALID_ARGUMENT', 'A channel ID is required in content owner mode.', 'Pass the channel parameter; list_owned_channels shows the available channel IDs.');
+    }
+
+    return { mine: true };
+  }
+
+  // Every Analytics report goes through here, so malformed date ranges fail before any quota is spent
+  private queryReport(params: youtubeAnalytics_v2.Params$Resource$Reports$Query, dateLabels?: [string, string]) {
+    assertDateRange(params.startDate!, params.endDate!, dateLabels);
+    return this.cachedRequest('youtubeAnalytics.reports.query', params, params => this.youtubeAnalytics.reports.query(params));
+  }
+
+  /**
+   * Sends one API request through the shared response cache (when configured) and the retry loop.
+   * Only response data is cached, never headers or request config.
+   */
+  private async cachedRequest<P extends object, T>(
+    endpoint: string,
+    params: P,
+    call: (params: P) => Promise<{ data: T }>
+  ): Promise<{ data: T }> {
+    const { cache, cacheScope, quota, scheduler } = this.options;
+    const signal = this.context.signal;
+    // Runs once per attempt, so a retry that would overrun the budget is refused instead of sent
+    const send = () => {
+      quota?.assertWithinBudget(endpoint);
+      quota?.record(endpoint, this.context.toolName);
+      return call(params);
+    };
+    const fetch = async () => {
+      const response = await this.withRetry(() => scheduler ? scheduler.run(send, signal) : send());
+      return response.data;
+    };
+    // Concurrent callers asking for the same data share one request, retries included
+    const sharedFetch = scheduler && cacheScope
+      ? () => scheduler.dedupe(buildRequestKey(cacheScope, endpoint, params), fetch, signal)
+      : fetch;
+    if (!cache || !cacheScope) {
+      return { data: await sharedFetch() };
     }
+    return { data: await cache.getOrFetch(cacheScope, endpoint, params as Record<string, unknown>, sharedFetch) };
+  }
 
-    if (error.code === 401) {
-      throw new Error('Authentication failed. Please re-authenticate.');
+  /**
+   * Runs a request under the retry policy: transient failures are retried with backoff,
+   * everything else fails at once. Failures surface as YouTubeApiError subclasses.
+   */
+  private async withRetry<T>(fn: () => Promise<T>, policy: RetryPolicy = DEFAULT_RETRY_POLICY): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      this.context.signal?.throwIfAborted();
+      try {
+        recordApiCall();
+        const result = await fn();
+        this.context.onProgress?.('API request completed');
+        return result;
+      } catch (error) {
+        recordApiError();
+        this.context.signal?.throwIfAborted();
+
+        const details = classifyApiError(error);
+        const delay = getRetryDelay(policy, attempt, details);
+        if (delay === undefined) {
+          throw toYouTubeApiError(error);
+        }
+
+        const message = `${details.kind === 'rateLimit' ? 'Rate limited' : `Transient ${details.kind} error`}${details.httpStatus ? ` (HTTP ${details.httpStatus})` : ''}, retrying in ${delay}ms (attempt ${attempt + 2} of ${policy.maxAttempts})`;
+        log.warn(message);
+        recordApiRetry();
+        this.context.onProgress?.(message);
+        await this.sleep(delay);
+      }
+    }
+  }
+
+  // Resolves after the delay, or rejects as soon as the call is cancelled
+  private sleep(ms: number): Promise<void> {
+    const signal = this.context.signal;
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  private handleApiError(error: any): void {
+    // Cancelled calls, local budget refusals and the expected API failures propagate as they are
+    if (this.context.signal?.aborted || error instanceof QuotaBudgetExceededError || error instanceof ToolError) {
+      return;
+    }
+    if (error instanceof YouTubeApiError && error.kind !== 'unknown' && error.kind !== 'server' && error.kind !== 'network') {
+      return;
     }
 
     // Log the error for debugging
-    console.error('YouTube API Error:', {
-      code: error.code,
-      message: error.message,
-      errors: error.errors
+    log.error('YouTube API error', {
+      name: error?.name,
+      kind: error?.kind,
+      httpStatus: error?.httpStatus,
+      reason: error?.reason,
+      message: error?.message
     });
   }
 
@@ -1,4 +1,5 @@
 #!/bin/bash
+# Extra arguments are passed to the server, e.g. ./test_all_tools.sh --mock
 
 tools=("check_auth_status" "get_server_info" "get_channel_info" "get_channel_videos" "get_geographic_distribution" "get_subscriber_analytics" "get_optimal_posting_time" "get_traffic_sources" "get_engagement_metrics")
 
@@ -12,7 +13,7 @@ for i in "${!tools[@]}"; do
     args='{"startDate": "2025-01-01", "endDate": "2025-01-15"}'
   fi
   
-  result=$(echo "{\"jsonrpc\": \"2.0\", \"id\": $((i+1)), \"method\": \"tools/call\", \"params\": {\"name\": \"$tool\", \"arguments\": $args}}" | node build/index.js 2>/dev/null)
+  result=$(echo "{\"jsonrpc\": \"2.0\", \"id\": $((i+1)), \"method\": \"tools/call\", \"params\": {\"name\": \"$tool\", \"arguments\": $args}}" | node build/index.js "$@" 2>/dev/null)
   
   if echo "$result" | grep -q '"result"'; then
     echo "✅ $tool: SUCCESS"
@@ -0,0 +1,152 @@
+#!/bin/bash
+# Runs tools offline: against the built-in mock fixtures, the recordings in fixtures/ and without an account; needs no credentials (npm run build first)
+
+config_dir=$(mktemp -d)
+trap 'rm -rf "$config_dir"' EXIT
+failures=0
+
+call_tool() {
+  echo "{\"jsonrpc\": \"2.0\", \"id\": 1, \"method\": \"tools/call\", \"params\": {\"name\": \"$1\", \"arguments\": $2}}" \
+    | YOUTUBE_MCP_CONFIG_DIR="$config_dir" node build/index.js ${3:---mock} 2>/dev/null
+}
+
+# check <description> <result> <JavaScript expression over the tool result `r`>
+check() {
+  if echo "$2" | node -e "
+    const r = JSON.parse(require('fs').readFileSync(0, 'utf8')).result;
+    process.exit(r && (${3}) ? 0 : 1);
+  "; then
+    echo "✅ $1"
+  else
+    echo "❌ $1"
+    echo "$2"
+    failures=$((failures+1))
+  fi
+}
+
+# Demographics rows come back as [ageGroup, gender, viewerPercentage]
+result=$(call_tool "get_video_demographics" '{"startDate": "2025-09-01", "endDate": "2025-09-05", "format": "json"}')
+check "get_video_demographics parses 3-column rows" "$result" \
+  "!r.isError && r.structuredContent.demographics.length === 21 &&
+   r.structuredContent.demographics.every(d => Number.isFinite(d.viewerPercentage) && d.ageGroup.startsWith('Ages ') && d.gender !== 'Unknown') &&
+   Math.abs(r.structuredContent.demographics.reduce((sum, d) => sum + d.viewerPercentage, 0) - 100) < 0.1"
+
+# YouTube withholds demographics for videos with too few views
+result=$(call_tool "get_video_demographics" '{"startDate": "2025-09-01", "endDate": "2025-09-05", "videoId": "mockLowView"}')
+check "get_video_demographics without data" "$result" \
+  "!r.isError && r.structuredContent.demographics.length === 0 && r.content[0].text.includes('No demographic data')"
+
+# A single day has no first and second half to compare
+result=$(call_tool "get_revenue_metrics" '{"startDate": "2025-09-01", "endDate": "2025-09-01"}')
+check "get_revenue_metrics for one day shows no trend" "$result" \
+  "!r.isError && !r.content[0].text.includes('second half') && r.structuredContent.analysis.rpmChangePercent === undefined && r.structuredContent.analysis.daily.length === 1"
+
+result=$(call_tool "get_revenue_metrics" '{"startDate": "2025-09-01", "endDate": "2025-09-10"}')
+check "get_revenue_metrics for ten days shows a trend" "$result" \
+  "!r.isError && r.content[0].text.includes('second half') && Number.isFinite(r.structuredContent.analysis.rpmChangePercent)"
+
+# The channel was created on 2019-03-14, so the first half of this period earned nothing
+result=$(call_tool "get_revenue_metrics" '{"startDate": "2019-03-01", "endDate": "2019-03-20"}')
+check "get_revenue_metrics with an empty half shows no trend" "$result" \
+  "!r.isError && r.structuredContent.analysis.daily[0].estimatedRevenue === 0 && r.structuredContent.analysis.totals.estimatedRevenue > 0 &&
+   !r.content[0].text.includes('second half') && r.structuredContent.analysis.cpmChangePercent === undefined"
+
+# The fixtures rate limit this video on every attempt, so retries give up with RATE_LIMITED
+result=$(call_tool "get_video_details" '{"videoIds": ["mockRateLim"]}')
+check "get_video_details when rate limited" "$result" \
+  "r.isError && r.structuredContent.error.code === 'RATE_LIMITED' && r.structuredContent.error.httpStatus === 429"
+
+# The uploads resource reads one page of the uploads playlist, newest first
+result=$(echo '{"jsonrpc": "2.0", "id": 1, "method": "resources/read", "params": {"uri": "youtube://videos"}}' \
+  | YOUTUBE_MCP_CONFIG_DIR="$config_dir" node build/index.js --mock 2>/dev/null)
+check "youtube://videos lists the newest uploads" "$result" \
+  "(videos => videos.length === 9 && videos[0].videoId === 'mockVid0001' && videos.every(v => v.privacyStatus))(JSON.parse(r.contents[0].text))"
+
+# Pending cache writes are flushed when stdin closes
+cache_dir=$(mktemp -d -p "$config_dir")
+echo '{"jsonrpc": "2.0", "id": 1, "method": "tools/call", "params": {"name": "get_video_details", "arguments": {"videoIds": ["mockVid0001"]}}}' \
+  | YOUTUBE_MCP_CONFIG_DIR="$cache_dir" node build/index.js --mock --cache disk >/dev/null 2>&1
+result=$(node -e "
+  const file = JSON.parse(require('fs').readFileSync('$cache_dir/mock/cache/responses.json', 'utf8'));
+  console.log(JSON.stringify({ result: { entries: Object.keys(file.entries).length } }));
+" 2>&1)
+check "disk cache is written before exit" "$result" "r.entries > 0"
+
+# The read-only profile hides every tool that changes state
+result=$(call_tool "get_server_info" '{"format": "json"}' "--mock --profile safe")
+check "safe profile hides state-changing tools" "$result" \
+  "(names => !r.isError && names.includes('list_accounts') &&
+    ['start_auth', 'complete_auth', 'add_account', 'switch_account', 'remove_account', 'revoke_auth', 'clear_cache'].every(name => !names.includes(name))
+  )(Object.values(r.structuredContent.enabledTools).flat())"
+
+# Without an account (and outside mock mode) no scopes are granted, so revenue tools stay hidden
+result=$(call_tool "get_server_info" '{"format": "json"}' "--profile full")
+check "get_server_info reports scope-hidden tools" "$result" \
+  "!r.isError && !r.structuredContent.enabledTools.revenue && r.structuredContent.scopeHiddenTools.includes('get_revenue_metrics')"
+
+# Video IDs complete from the whole uploads catalog by title prefix, down to the oldest upload
+result=$(echo '{"jsonrpc": "2.0", "id": 1, "method": "completion/complete", "params": {"ref": {"type": "ref/prompt", "name": "youtube_video_analysis"}, "argument": {"name": "video_id", "value": "why my"}}}' \
+  | YOUTUBE_MCP_CONFIG_DIR="$config_dir" node build/index.js --mock 2>/dev/null)
+check "video_id completes by title prefix" "$result" \
+  "JSON.stringify(r.completion.values) === JSON.stringify(['mockVid0009'])"
+
+# A corrupt token file is skipped and the others are still encrypted
+token_dir=$(mktemp -d -p "$config_dir")
+mkdir "$token_dir/tokens"
+echo '{"access_token": "a", "refresh_token": "r"}' > "$token_dir/tokens/a.json"
+echo '{broken' > "$token_dir/tokens/b.json"
+YOUTUBE_MCP_CONFIG_DIR="$token_dir" YOUTUBE_MCP_TOKEN_KEY=test-key node build/index.js migrate-tokens >/dev/null 2>&1
+result=$(node -e "
+  const read = name => require('fs').readFileSync('$token_dir/tokens/' + name, 'utf8');
+  console.log(JSON.stringify({ result: { a: JSON.parse(read('a.json')).algorithm, b: read('b.json').trim() } }));
+" 2>&1)
+check "migrate-tokens skips a corrupt token file" "$result" "r.a === 'aes-256-gcm' && r.b === '{broken'"
+
+# A corrupt account index is reported and left alone instead of being replaced by an empty one
+index_dir=$(mktemp -d -p "$config_dir")
+echo '{"accounts": {' > "$index_dir/accounts.json"
+result=$(echo '{"jsonrpc": "2.0", "id": 1, "method": "tools/call", "params": {"name": "list_accounts", "arguments": {}}}' \
+  | YOUTUBE_MCP_CONFIG_DIR="$index_dir" node build/index.js 2>/dev/null)
+check "list_accounts reports a corrupt account index" "$result" \
+  "r.isError && r.content[0].text.includes('Cannot read the account index') &&
+   require('fs').readFileSync('$index_dir/accounts.json', 'utf8').trim() === '{\"accounts\": {'"
+
+# No tool searches, so the search fixture is checked on the fake backend itself
+result=$(node --input-type=module -e "
+  import { createFakeBackend } from './build/youtube/fake-backend.js';
+  import { DEFAULT_FAKE_FIXTURES } from './build/youtube/fake-fixtures.js';
+  const search = createFakeBackend(DEFAULT_FAKE_FIXTURES)().youtube.search;
+  const found = await search.list({ part: ['snippet'], q: 'sourdough', type: ['video'] });
+  const error = await search.list({ part: ['snippet'], q: 'rateLimitDemo' }).catch(error => error);
+  console.log(JSON.stringify({ result: { found: found.data.items.length, status: error.status, reason: error.errors?.[0]?.reason } }));
+" 2>&1)
+check "search.list fixture rate limits rateLimitDemo" "$result" \
+  "r.found > 0 && r.status === 429 && r.reason === 'rateLimitExceeded'"
+
+# Each retry is checked against the budget, so the third attempt is refused
+result=$(echo '{"jsonrpc": "2.0", "id": 1, "method": "tools/call", "params": {"name": "get_video_details", "arguments": {"videoIds": ["mockRateLim"]}}}' \
+  | YOUTUBE_MCP_CONFIG_DIR="$(mktemp -d -p "$config_dir")" YOUTUBE_MCP_QUOTA_BUDGET=2 node build/index.js --mock 2>/dev/null)
+check "get_video_details stops retrying at the quota budget" "$result" \
+  "r.isError && r.content[0].text.includes('2 of the 2-unit daily budget')"
+
+# Recorded from --mock, so channel IDs in the fixture are sanitized aliases
+replay="--replay fixtures/low-view-video.json"
+
+result=$(call_tool "get_video_demographics" '{"startDate": "2025-09-01", "endDate": "2025-09-05", "videoId": "mockLowView"}' "$replay")
+check "replayed get_video_demographics without data" "$result" \
+  "!r.isError && r.structuredContent.demographics.length === 0 && r.content[0].text.includes('No demographic data')"
+
+result=$(call_tool "get_video_demographics" '{"startDate": "2025-09-01", "endDate": "2025-09-05"}' "$replay")
+check "replayed get_video_demographics parses 3-column rows" "$result" \
+  "!r.isError && r.structuredContent.demographics.length === 21 &&
+   r.structuredContent.demographics.every(d => Number.isFinite(d.viewerPercentage))"
+
+result=$(call_tool "get_video_details" '{"videoIds": ["mockLowView"], "format": "json"}' "$replay")
+check "replayed get_video_details has sanitized channel ID" "$result" \
+  "!r.isError && JSON.stringify(r.structuredContent).includes('UCREDACTED') && !JSON.stringify(r.structuredContent).includes('UCm0ckDevChannel')"
+
+result=$(call_tool "get_video_details" '{"videoIds": ["mockVid0001"]}' "$replay")
+check "replayed call that was never recorded fails with NOT_FOUND" "$result" \
+  "r.isError && r.content[0].text.includes('NOT_FOUND')"
+
+exit $failures